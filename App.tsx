@@ -1,10 +1,55 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Transaction, TransactionType, UserProfile, PaymentMethod, StaffMember } from './types';
+import { Transaction, TransactionType, UserProfile, PaymentMethod, StaffMember, ReportingPeriod, DayClose, Category, StockItem, StockCount, MenuItem, Customer, Supplier, RecurringExpense, Outlet, SessionRole, PinAttempts, AuditEntry, AuditAction, LedgerFilter } from './types';
 import { TransactionForm } from './components/TransactionForm';
 import { StaffManager } from './components/StaffManager';
-import { ICONS, PAYMENT_METHODS } from './constants';
-import { getBusinessInsights } from './services/geminiService';
+import { PeriodSelector } from './components/PeriodSelector';
+import { DayCloseManager } from './components/DayCloseManager';
+import { BackupPanel } from './components/BackupPanel';
+import { CsvImportWizard } from './components/CsvImportWizard';
+import { ExportPanel } from './components/ExportPanel';
+import { CategoryManager } from './components/CategoryManager';
+import { BudgetPanel } from './components/BudgetPanel';
+import { BudgetReport } from './components/BudgetReport';
+import { InventoryManager } from './components/InventoryManager';
+import { PosScreen } from './components/PosScreen';
+import { MenuManager } from './components/MenuManager';
+import { ItemSalesReport } from './components/ItemSalesReport';
+import { MarginReport } from './components/MarginReport';
+import { CustomerManager } from './components/CustomerManager';
+import { SupplierManager } from './components/SupplierManager';
+import { RecurringManager } from './components/RecurringManager';
+import { RecurringReview } from './components/RecurringReview';
+import { OutletManager } from './components/OutletManager';
+import { OutletComparison } from './components/OutletComparison';
+import { AnalyticsReport } from './components/AnalyticsReport';
+import { CashFlowForecast } from './components/CashFlowForecast';
+import { PinPad } from './components/PinPad';
+import { SecurityPanel } from './components/SecurityPanel';
+import { UndoToast } from './components/UndoToast';
+import { RecentlyDeleted } from './components/RecentlyDeleted';
+import { LedgerView } from './components/LedgerView';
+import { InsightCards } from './components/InsightCards';
+import { ICONS, METHOD_COLORS, PAYMENT_METHODS } from './constants';
+import { geminiInsightProvider } from './services/geminiService';
+import { BusinessInsights, MIN_INSIGHT_ENTRIES, buildInsightAggregate, getInsights, offlineInsightProvider } from './services/insights';
+import { DEFAULT_PERIOD, filterByPeriod, resolvePeriod } from './services/reportingPeriod';
+import { isTransactionLocked, reopenDayClose } from './services/cashDrawer';
+import { formatDateKey, getBusinessDateKey } from './services/dateUtils';
+import { CategoryMove, moveSchedules, reconcileCategories } from './services/categories';
+import { overspendWarning } from './services/budget';
+import { formatQty, lowStockItems } from './services/inventory';
+import { countsAsSale, creditLimitWarning } from './services/customers';
+import { billsDueSoon, countsAsExpense } from './services/suppliers';
+import { postDueExpenses, reviewQueue } from './services/recurring';
+import { reversePayrollEntry } from './services/payroll';
+import { DEFAULT_OUTLET_ID, cutoffFor, defaultOutlet, forOutlet, withOutlet } from './services/outlets';
+import { DEFAULT_LOCK_MINUTES, NO_PIN_ATTEMPTS, recordPinFailure, verifyPin } from './services/ownerPin';
+import { auditEntry, ledgerChanges, recentlyDeleted } from './services/audit';
+import { EMPTY_LEDGER_FILTER, filterFromQuery, filterToQuery, isLedgerUrl } from './services/ledgerFilter';
+import { DEFAULT_SAFETY_THRESHOLD, buildCashForecast, currentOpeningCash } from './services/cashForecast';
+import { CollectionStore, loadAll, putSetting, syncStore } from './services/storage';
+import { BackupData, RestoreMode, mergeCollection } from './services/backup';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie } from 'recharts';
 
 const App: React.FC = () => {
@@ -19,91 +64,525 @@ const App: React.FC = () => {
 
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [staff, setStaff] = useState<StaffMember[]>([]);
-  const [insights, setInsights] = useState<string>('Recording data to generate AI insights...');
+  const [dayCloses, setDayCloses] = useState<DayClose[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [stockCounts, setStockCounts] = useState<StockCount[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [outlets, setOutlets] = useState<Outlet[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [activeOutletId, setActiveOutletId] = useState(DEFAULT_OUTLET_ID);
+  const [insights, setInsights] = useState<BusinessInsights | null>(null);
   const [loadingInsights, setLoadingInsights] = useState(false);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'logs' | 'reports' | 'staff' | 'settings'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'logs' | 'reports' | 'staff' | 'stock' | 'khata' | 'settings'>(() => isLedgerUrl(window.location.search) ? 'logs' : 'dashboard');
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [period, setPeriod] = useState<ReportingPeriod>(DEFAULT_PERIOD);
 
-  // Load data from LocalStorage on mount
+  const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showPos, setShowPos] = useState(false);
+  const [khataView, setKhataView] = useState<'customers' | 'suppliers'>('customers');
+  // Only matters once an owner PIN is set; without one the owner is always signed in
+  const [session, setSession] = useState<SessionRole>('OWNER');
+  const [pinRequest, setPinRequest] = useState<{ title: string; onUnlock: () => void } | null>(null);
+  const [pinAttempts, setPinAttempts] = useState<PinAttempts>(NO_PIN_ATTEMPTS);
+  const [undo, setUndo] = useState<{ message: string; affects: Transaction[]; revert: () => void } | null>(null);
+  const [ledgerView, setLedgerView] = useState<'entries' | 'deleted'>('entries');
+  const [ledgerFilter, setLedgerFilter] = useState<LedgerFilter>(() => isLedgerUrl(window.location.search) ? filterFromQuery(window.location.search) : EMPTY_LEDGER_FILTER);
+
+  // Last collections written to IndexedDB, so each save only touches changed records
+  const persisted = useRef<Record<CollectionStore, { id: string }[]>>({ transactions: [], staff: [], dayCloses: [], categories: [], stockItems: [], stockCounts: [], menuItems: [], customers: [], suppliers: [], recurringExpenses: [], outlets: [], auditLog: [] });
+
+  // Load data from IndexedDB on mount (imports the old localStorage data on first run)
   useEffect(() => {
-    const savedU = localStorage.getItem('chai_user');
-    const savedT = localStorage.getItem('chai_transactions');
-    const savedS = localStorage.getItem('chai_staff');
-    if (savedU) setUser(JSON.parse(savedU));
-    if (savedT) setTransactions(JSON.parse(savedT));
-    if (savedS) setStaff(JSON.parse(savedS));
+    loadAll()
+      .then(data => {
+        const migratedStaff = withOutlet(data.staff);
+        const transactions = withOutlet(data.transactions);
+        const dayCloses = withOutlet(data.dayCloses);
+        const schedules = withOutlet(data.recurringExpenses);
+        persisted.current = {
+          transactions: data.transactions,
+          staff: data.staff,
+          dayCloses: data.dayCloses,
+          categories: data.categories,
+          stockItems: data.stockItems,
+          stockCounts: data.stockCounts,
+          menuItems: data.menuItems,
+          customers: data.customers,
+          suppliers: data.suppliers,
+          recurringExpenses: data.recurringExpenses,
+          outlets: data.outlets,
+          auditLog: data.auditLog
+        };
+        if (data.user) setUser(data.user);
+        if (data.user?.ownerPin) setSession('LOCKED');
+        if (data.period) setPeriod(data.period);
+        if (data.activeOutletId) setActiveOutletId(data.activeOutletId);
+        if (data.pinAttempts) setPinAttempts(data.pinAttempts);
+        // Catch up on recurring expenses that fell due while the app was closed
+        const profile = data.user || user;
+        const due = postDueExpenses(schedules, transactions, dayCloses, id => getBusinessDateKey(new Date(), cutoffFor(data.outlets, profile, id)));
+        setTransactions([...due.posted, ...transactions].sort((a, b) => b.date.localeCompare(a.date)));
+        setAuditLog([...data.auditLog, ...due.posted.map(t => auditEntry('CREATE', 'AUTO', undefined, t))]);
+        setStaff(migratedStaff);
+        setDayCloses(dayCloses);
+        setCategories(reconcileCategories(data.categories, data.transactions));
+        setStockItems(data.stockItems);
+        setStockCounts(data.stockCounts);
+        setMenuItems(data.menuItems);
+        setCustomers(data.customers);
+        setSuppliers(data.suppliers);
+        setRecurringExpenses(due.schedules);
+        setOutlets(data.outlets);
+        setShowPos(data.menuItems.some(m => !m.archived));
+        setLoaded(true);
+        if (data.unreadableLegacyKeys.length) {
+          alert(`Some data saved by an older version of the app could not be read and was skipped (${data.unreadableLegacyKeys.join(', ')}). Everything else has loaded.`);
+        }
+      })
+      .catch(err => {
+        console.error("Storage Error:", err);
+        setLoadError((err as Error)?.message || 'Unknown error');
+      });
   }, []);
 
-  // Save data whenever it changes
+  // Save data whenever it changes, but never before the initial load has finished
+  useEffect(() => {
+    if (loaded) putSetting('user', user).catch(err => console.error("Storage Error:", err));
+  }, [user, loaded]);
+
+  useEffect(() => {
+    if (loaded) putSetting('period', period).catch(err => console.error("Storage Error:", err));
+  }, [period, loaded]);
+
+  useEffect(() => {
+    if (loaded) putSetting('activeOutlet', activeOutletId).catch(err => console.error("Storage Error:", err));
+  }, [activeOutletId, loaded]);
+
+  // Saved so reloading the app does not reset the wrong-PIN lockout
+  useEffect(() => {
+    if (loaded) putSetting('pinAttempts', pinAttempts).catch(err => console.error("Storage Error:", err));
+  }, [pinAttempts, loaded]);
+
+  // The first outlet is the shop set up during onboarding
+  useEffect(() => {
+    if (loaded && user.isConfigured && !outlets.length) setOutlets([defaultOutlet(user)]);
+  }, [loaded, user.isConfigured, outlets.length]);
+
+  const isOwner = !user.ownerPin || session === 'OWNER';
+
+  const lock = () => {
+    setSession('LOCKED');
+    setPinRequest(null);
+    setUndo(null);
+    setEditingTransaction(null);
+    setShowExport(false);
+    setKhataView('customers');
+    setActiveTab('dashboard');
+  };
+
+  // Any touch or key press restarts the idle countdown
+  useEffect(() => {
+    if (!user.ownerPin || session !== 'OWNER') return;
+    const idleMs = (user.lockAfterMinutes || DEFAULT_LOCK_MINUTES) * 60000;
+    let timer = window.setTimeout(lock, idleMs);
+    const restart = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lock, idleMs);
+    };
+    const events = ['pointerdown', 'keydown', 'scroll'];
+    events.forEach(e => window.addEventListener(e, restart, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      events.forEach(e => window.removeEventListener(e, restart));
+    };
+  }, [user.ownerPin, user.lockAfterMinutes, session]);
+
+  const checkPin = async (pin: string) => {
+    if (!user.ownerPin || (pinAttempts.lockedUntil || 0) > Date.now()) return false;
+    if (!(await verifyPin(pin, user.ownerPin))) {
+      setPinAttempts(recordPinFailure(pinAttempts));
+      return false;
+    }
+    setPinAttempts(NO_PIN_ATTEMPTS);
+    return true;
+  };
+
+  // Only the lock screen hands the whole session to the owner
+  const unlock = async (pin: string) => {
+    if (!(await checkPin(pin))) return false;
+    setSession('OWNER');
+    return true;
+  };
+
+  // Cashiers get a PIN prompt; the PIN approves this one action and the session stays in cashier mode
+  const requireOwner = (title: string, action: () => void) => {
+    if (isOwner) action();
+    else setPinRequest({ title, onUnlock: action });
+  };
+
+  // Whole owner screens cannot be approved one action at a time, so the owner takes over at the lock screen
+  const openOwnerTab = (tab: 'stock' | 'khata' | 'settings') => {
+    setActiveTab(tab);
+    if (!isOwner) setSession('LOCKED');
+  };
+
+  const persistCollection = (store: CollectionStore, items: { id: string }[]) => {
+    const prev = persisted.current[store];
+    persisted.current[store] = items;
+    syncStore(store, items, prev).catch(err => console.error("Storage Error:", err));
+  };
+
+  useEffect(() => {
+    if (loaded) persistCollection('transactions', transactions);
+  }, [transactions, loaded]);
+
+  useEffect(() => {
+    if (loaded) persistCollection('staff', staff);
+  }, [staff, loaded]);
+
+  useEffect(() => {
+    if (loaded) persistCollection('dayCloses', dayCloses);
+  }, [dayCloses, loaded]);
+
+  useEffect(() => {
+    if (loaded) persistCollection('categories', categories);
+  }, [categories, loaded]);
+
+  useEffect(() => {
+    if (loaded) persistCollection('stockItems', stockItems);
+  }, [stockItems, loaded]);
+
+  useEffect(() => {
+    if (loaded) persistCollection('stockCounts', stockCounts);
+  }, [stockCounts, loaded]);
+
+  useEffect(() => {
+    if (loaded) persistCollection('menuItems', menuItems);
+  }, [menuItems, loaded]);
+
+  useEffect(() => {
+    if (loaded) persistCollection('customers', customers);
+  }, [customers, loaded]);
+
+  useEffect(() => {
+    if (loaded) persistCollection('suppliers', suppliers);
+  }, [suppliers, loaded]);
+
   useEffect(() => {
-    localStorage.setItem('chai_user', JSON.stringify(user));
-  }, [user]);
+    if (loaded) persistCollection('recurringExpenses', recurringExpenses);
+  }, [recurringExpenses, loaded]);
 
   useEffect(() => {
-    localStorage.setItem('chai_transactions', JSON.stringify(transactions));
-  }, [transactions]);
+    if (loaded) persistCollection('outlets', outlets);
+  }, [outlets, loaded]);
 
   useEffect(() => {
-    localStorage.setItem('chai_staff', JSON.stringify(staff));
-  }, [staff]);
+    if (loaded) persistCollection('auditLog', auditLog);
+  }, [auditLog, loaded]);
+
+  const activeOutlet = outlets.find(o => o.id === activeOutletId) || outlets[0];
+  const outletId = activeOutlet?.id || DEFAULT_OUTLET_ID;
+  const cutoffHour = activeOutlet?.businessDayCutoffHour ?? user.businessDayCutoffHour ?? 0;
+
+  // The dashboard, ledger, staff list and drawer show the current outlet only
+  const outletTransactions = useMemo(() => forOutlet(transactions, outletId), [transactions, outletId]);
+  const outletStaff = useMemo(() => forOutlet(staff, outletId), [staff, outletId]);
+  const outletDayCloses = useMemo(() => forOutlet(dayCloses, outletId), [dayCloses, outletId]);
+
+  // Each outlet closes its own drawer on its own business day
+  const entryCutoff = (t: Transaction) => cutoffFor(outlets, user, t.outletId || outletId);
+  const isLocked = (t: Transaction) => isTransactionLocked(t, forOutlet(dayCloses, t.outletId || outletId), entryCutoff(t));
+
+  const actor = isOwner ? 'OWNER' : 'CASHIER';
+
+  const logChange = (action: AuditAction, before?: Transaction, after?: Transaction) => {
+    setAuditLog(prev => [...prev, auditEntry(action, actor, before, after)]);
+  };
+
+  // Puts a deleted entry back exactly as it was, keeping its original id
+  const restoreTransaction = (t: Transaction) => {
+    setTransactions(prev => prev.some(x => x.id === t.id) ? prev : [t, ...prev].sort((a, b) => b.date.localeCompare(a.date)));
+    logChange('RESTORE', undefined, t);
+  };
+
+  const restoreDeleted = (e: AuditEntry) => {
+    const t = e.before!;
+    if (t.staffId) {
+      alert("Pay entries cannot be restored here. Record it again from the Staff tab so the staff member's pay record matches.");
+      return;
+    }
+    if (isLocked(t) && !window.confirm(`The drawer for ${getBusinessDateKey(t.date, entryCutoff(t))} is already closed. Restore this entry anyway?`)) return;
+    restoreTransaction(t);
+  };
 
-  const addTransaction = (t: Transaction) => {
-    if (editingTransaction) {
-      setTransactions(prev => prev.map(item => item.id === t.id ? t : item));
+  // Returns false when the entry was not recorded (e.g. the user backed out of a closed day)
+  const addTransaction = (entry: Transaction) => {
+    const t = entry.outletId ? entry : { ...entry, outletId };
+    const isEdit = editingTransaction?.id === t.id;
+    if (isEdit && isLocked(editingTransaction!)) {
+      alert("This day's cash drawer is closed. Reopen the day before editing its entries.");
+      return false;
+    }
+    if (!isEdit && isLocked(t) && !window.confirm(`The drawer for ${getBusinessDateKey(t.date, entryCutoff(t))} is already closed. Record this entry anyway?`)) {
+      return false;
+    }
+    const warning = overspendWarning(categories, forOutlet(transactions, t.outletId || outletId), t, entryCutoff(t), isEdit ? editingTransaction! : undefined);
+    if (warning && !window.confirm(`${warning}\nSave anyway?`)) return false;
+    const limitWarning = creditLimitWarning(customers, transactions, t, isEdit ? editingTransaction! : undefined);
+    if (limitWarning && !window.confirm(`${limitWarning}\nGive credit anyway?`)) return false;
+    if (isEdit) {
+      // Adjusting an auto-posted entry counts as reviewing it
+      const saved = t.needsReview ? { ...t, needsReview: undefined } : t;
+      const before = editingTransaction!;
+      setTransactions(prev => prev.map(item => item.id === t.id ? saved : item));
+      logChange('UPDATE', before, saved);
       setEditingTransaction(null);
+      setUndo({
+        message: `Edited ${saved.category} entry`,
+        affects: [before, saved],
+        revert: () => {
+          setTransactions(prev => prev.map(item => item.id === saved.id ? before : item));
+          logChange('UPDATE', saved, before);
+        }
+      });
     } else {
       setTransactions(prev => [t, ...prev]);
+      logChange('CREATE', undefined, t);
     }
+    return true;
+  };
+
+  const importTransactions = (rows: Transaction[]) => {
+    const imported = withOutlet(rows, outletId);
+    const locked = imported.filter(isLocked).length;
+    if (locked && !window.confirm(`${locked} imported entries fall on days whose cash drawer is already closed. Import them anyway?`)) return;
+    setTransactions(prev => [...imported, ...prev].sort((a, b) => b.date.localeCompare(a.date)));
+    setAuditLog(prev => [...prev, ...imported.map(t => auditEntry('CREATE', actor, undefined, t))]);
+    setShowImport(false);
+    alert(`Imported ${imported.length} entries.`);
   };
 
   const deleteTransaction = (id: string) => {
-    if (window.confirm("Delete this entry?")) {
+    const target = transactions.find(t => t.id === id);
+    if (target && isLocked(target)) {
+      alert("This day's cash drawer is closed. Reopen the day before deleting its entries.");
+      return;
+    }
+    if (target?.staffId) {
+      deletePayrollEntry(target);
+      return;
+    }
+    if (target && window.confirm("Delete this entry? It can be restored from Recently Deleted.")) {
       setTransactions(prev => prev.filter(t => t.id !== id));
+      logChange('DELETE', target);
       if (editingTransaction?.id === id) setEditingTransaction(null);
+      setUndo({ message: `Deleted ${target.category} entry`, affects: [target], revert: () => restoreTransaction(target) });
+    }
+  };
+
+  // Pay entries also live on the staff record, so deleting one takes it off there too and cannot be undone
+  const deletePayrollEntry = (target: Transaction) => {
+    const member = staff.find(s => s.id === target.staffId);
+    const reversed = member ? reversePayrollEntry(member, target) : undefined;
+    if (typeof reversed === 'string') {
+      alert(`${reversed}\nCorrect it from the Staff tab instead.`);
+      return;
     }
+    if (!window.confirm(`Delete this pay entry?${member ? ` It is also taken off ${member.name}'s pay record and cannot be restored.` : ''}`)) return;
+    setTransactions(prev => prev.filter(t => t.id !== target.id));
+    logChange('DELETE', target);
+    if (reversed) updateStaff(reversed);
+    if (editingTransaction?.id === target.id) setEditingTransaction(null);
   };
 
+  const openSuppliers = () => {
+    setKhataView('suppliers');
+    openOwnerTab('khata');
+  };
+
+  const openSettings = () => openOwnerTab('settings');
+
   const handleEditClick = (t: Transaction) => {
+    if (isLocked(t)) {
+      alert("This day's cash drawer is closed. Reopen the day before editing its entries.");
+      return;
+    }
+    if (t.staffId) {
+      alert("Pay entries are kept in step with the staff record. Delete this one and record it again from the Staff tab.");
+      return;
+    }
     setEditingTransaction(t);
     setActiveTab('dashboard');
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const addStaff = (s: StaffMember) => {
-    setStaff(prev => [...prev, s]);
+    setStaff(prev => [...prev, { ...s, outletId }]);
   };
 
   const updateStaff = (updated: StaffMember) => {
     setStaff(prev => prev.map(s => s.id === updated.id ? updated : s));
   };
 
+  const restoreBackup = (data: BackupData, mode: RestoreMode) => {
+    // Backups from before outlets existed belong to the first outlet
+    const t = mergeCollection(transactions, withOutlet(data.transactions), mode);
+    const s = mergeCollection(staff, withOutlet(data.staff), mode);
+    const c = mergeCollection(dayCloses, withOutlet(data.dayCloses), mode);
+    const cats = mergeCollection(categories, data.categories, mode);
+    const si = mergeCollection(stockItems, data.stockItems, mode);
+    const sc = mergeCollection(stockCounts, data.stockCounts, mode);
+    const mi = mergeCollection(menuItems, data.menuItems, mode);
+    const cu = mergeCollection(customers, data.customers, mode);
+    const su = mergeCollection(suppliers, data.suppliers, mode);
+    const re = mergeCollection(recurringExpenses, withOutlet(data.recurringExpenses), mode);
+    const ou = mergeCollection(outlets, data.outlets, mode);
+    // The change log is append-only, so even a full replace keeps this device's history
+    const al = mergeCollection(auditLog, data.auditLog, 'MERGE');
+    const restored = [...t.items].sort((a, b) => b.date.localeCompare(a.date));
+    const changes = ledgerChanges(transactions, restored, actor);
+    if (mode === 'REPLACE') setUser(data.user);
+    setTransactions(restored);
+    setStaff(s.items);
+    setDayCloses(c.items);
+    setCategories(reconcileCategories(cats.items, t.items));
+    setStockItems(si.items);
+    setStockCounts(sc.items);
+    setMenuItems(mi.items);
+    setCustomers(cu.items);
+    setSuppliers(su.items);
+    setRecurringExpenses(re.items);
+    setOutlets(ou.items);
+    setAuditLog([...al.items, ...changes].sort((a, b) => a.at.localeCompare(b.at)));
+    setEditingTransaction(null);
+    alert(`Restore complete.\nTransactions added: ${t.added}${t.skipped ? ` (${t.skipped} duplicates skipped)` : ''}\nStaff added: ${s.added}\nDay closes added: ${c.added}`);
+  };
+
+  // Renames and merges hand back the rewritten ledger along with the categories
+  const updateCategories = (next: Category[], rewritten?: Transaction[], move?: CategoryMove) => {
+    setCategories(next);
+    if (move) setRecurringExpenses(prev => moveSchedules(prev, move));
+    if (rewritten) {
+      const changes = ledgerChanges(transactions, rewritten, actor);
+      setTransactions(rewritten);
+      setAuditLog(prev => [...prev, ...changes]);
+      setEditingTransaction(null);
+    }
+  };
+
+  const updateStockItem = (updated: StockItem) => {
+    setStockItems(prev => prev.map(i => i.id === updated.id ? updated : i));
+  };
+
+  // Counts are keyed by item and day, so a recount replaces that day's entry
+  const saveStockCount = (c: StockCount) => {
+    setStockCounts(prev => [...prev.filter(x => x.id !== c.id), c]);
+  };
+
+  const updateCustomer = (updated: Customer) => {
+    setCustomers(prev => prev.map(c => c.id === updated.id ? updated : c));
+  };
+
+  const updateSupplier = (updated: Supplier) => {
+    setSuppliers(prev => prev.map(s => s.id === updated.id ? updated : s));
+  };
+
+  // Posts straight away anything a new or resumed schedule already owes
+  const updateRecurringExpenses = (outletSchedules: RecurringExpense[]) => {
+    const next = [...recurringExpenses.filter(s => s.outletId !== outletId), ...withOutlet(outletSchedules, outletId)];
+    const due = postDueExpenses(next, transactions, dayCloses, id => getBusinessDateKey(new Date(), cutoffFor(outlets, user, id)));
+    setRecurringExpenses(due.schedules);
+    if (due.posted.length) {
+      setTransactions(prev => [...due.posted, ...prev].sort((a, b) => b.date.localeCompare(a.date)));
+      setAuditLog(prev => [...prev, ...due.posted.map(t => auditEntry('CREATE', 'AUTO', undefined, t))]);
+    }
+  };
+
+  const updateOutlet = (updated: Outlet) => {
+    setOutlets(prev => prev.map(o => o.id === updated.id ? updated : o));
+  };
+
+  const switchOutlet = (id: string) => {
+    setActiveOutletId(id);
+    setEditingTransaction(null);
+  };
+
+  const confirmReviewed = (ids: string[]) => {
+    const reviewed = transactions.map(t => ids.includes(t.id) ? { ...t, needsReview: undefined } : t);
+    const changes = ledgerChanges(transactions, reviewed, actor);
+    setTransactions(reviewed);
+    setAuditLog(prev => [...prev, ...changes]);
+  };
+
+  const closeDay = (c: DayClose) => {
+    setDayCloses(prev => [...prev.filter(d => d.reopenedAt || !(d.date === c.date && d.outletId === c.outletId)), c]);
+  };
+
+  const reopenDay = (id: string) => {
+    setDayCloses(prev => prev.map(d => d.id === id ? reopenDayClose(d) : d));
+  };
+
+  // Resolved against the clock on every render so "Today" rolls over at the cutoff
+  const periodRange = resolvePeriod(period, cutoffHour);
+
+  const periodTransactions = useMemo(
+    () => filterByPeriod(outletTransactions, periodRange, cutoffHour),
+    [outletTransactions, periodRange.startKey, periodRange.endKey, cutoffHour]
+  );
+
+  // Outlet and period the dashboard shows now, so an answer that arrives after a switch is dropped
+  const insightScope = `${outletId}:${periodRange.startKey}:${periodRange.endKey}`;
+  const currentInsightScope = useRef(insightScope);
+
   const fetchInsights = async () => {
-    if (transactions.length < 3) return;
+    if (periodTransactions.length < MIN_INSIGHT_ENTRIES) return;
+    const scope = insightScope;
     setLoadingInsights(true);
-    const result = await getBusinessInsights(transactions, user.businessName);
+    const aggregate = buildInsightAggregate(outletTransactions, outletStaff, periodRange, activeOutlet?.name || user.businessName, cutoffHour);
+    const result = await getInsights(process.env.API_KEY ? geminiInsightProvider : offlineInsightProvider, aggregate);
+    if (currentInsightScope.current !== scope) return;
     setInsights(result);
     setLoadingInsights(false);
   };
 
+  // The ledger filter lives in the address bar while the Ledger tab is open, so a filtered view can be bookmarked
+  useEffect(() => {
+    window.history.replaceState(null, '', activeTab === 'logs' ? filterToQuery(ledgerFilter) : window.location.pathname);
+  }, [activeTab, ledgerFilter]);
+
+  // Advice for another period or outlet would be misleading
+  useEffect(() => {
+    currentInsightScope.current = insightScope;
+    setInsights(null);
+    setLoadingInsights(false);
+  }, [insightScope]);
+
   const totals = useMemo(() => {
-    return transactions.reduce((acc, t) => {
-      if (t.type === TransactionType.INCOME) acc.income += t.amount;
-      else acc.expenses += t.amount;
+    return periodTransactions.reduce((acc, t) => {
+      if (countsAsSale(t)) acc.income += t.amount;
+      else if (countsAsExpense(t)) acc.expenses += t.amount;
       return acc;
     }, { income: 0, expenses: 0 });
-  }, [transactions]);
+  }, [periodTransactions]);
 
   const profit = totals.income - totals.expenses;
 
   const paymentData = useMemo(() => {
-    const counts = transactions.reduce((acc, t) => {
-      if (t.type === TransactionType.INCOME) {
+    const counts = periodTransactions.reduce((acc, t) => {
+      if (countsAsSale(t)) {
         acc[t.paymentMethod] = (acc[t.paymentMethod] || 0) + t.amount;
       }
       return acc;
     }, {} as Record<string, number>);
     return Object.entries(counts).map(([name, value]) => ({ name, value }));
-  }, [transactions]);
+  }, [periodTransactions]);
 
   const dailyChartData = useMemo(() => {
     const last7Days = Array.from({ length: 7 }, (_, i) => {
@@ -112,16 +591,40 @@ const App: React.FC = () => {
       return d.toISOString().split('T')[0];
     }).reverse();
     return last7Days.map(date => {
-      const dayT = transactions.filter(t => t.date.startsWith(date));
+      const dayT = outletTransactions.filter(t => t.date.startsWith(date));
       return {
         date: date.split('-').slice(1).join('/'),
-        income: dayT.filter(t => t.type === TransactionType.INCOME).reduce((sum, t) => sum + t.amount, 0),
-        expense: dayT.filter(t => t.type === TransactionType.EXPENSE).reduce((sum, t) => sum + t.amount, 0),
+        income: dayT.filter(countsAsSale).reduce((sum, t) => sum + t.amount, 0),
+        expense: dayT.filter(countsAsExpense).reduce((sum, t) => sum + t.amount, 0),
       };
     });
-  }, [transactions]);
+  }, [outletTransactions]);
 
-  const COLORS = ['#F59E0B', '#3B82F6', '#8B5CF6', '#6B7280'];
+  const deletedEntries = useMemo(
+    () => recentlyDeleted(forOutlet(auditLog, outletId), transactions),
+    [auditLog, outletId, transactions]
+  );
+
+  const lowStock = useMemo(
+    () => lowStockItems(stockItems, transactions, stockCounts, cutoffHour),
+    [stockItems, transactions, stockCounts, cutoffHour]
+  );
+
+  const billsDue = useMemo(
+    () => billsDueSoon(suppliers, transactions, getBusinessDateKey(new Date(), cutoffHour), cutoffHour),
+    [suppliers, transactions, cutoffHour]
+  );
+
+  // The dashboard alert and the Reports panel project from the same balance
+  const safetyThreshold = activeOutlet?.cashSafetyThreshold ?? DEFAULT_SAFETY_THRESHOLD;
+  const openingCash = useMemo(
+    () => currentOpeningCash(activeOutlet?.cashOnHand, outletDayCloses, outletTransactions, cutoffHour),
+    [activeOutlet?.cashOnHand, outletDayCloses, outletTransactions, cutoffHour]
+  );
+  const forecast = useMemo(
+    () => buildCashForecast(openingCash?.amount ?? 0, safetyThreshold, outletTransactions, outletStaff, forOutlet(recurringExpenses, outletId), suppliers, getBusinessDateKey(new Date(), cutoffHour), cutoffHour),
+    [openingCash, safetyThreshold, outletTransactions, outletStaff, recurringExpenses, outletId, suppliers, cutoffHour]
+  );
 
   // Setup/Onboarding View
   const SetupView = () => {
@@ -236,31 +739,84 @@ const App: React.FC = () => {
     );
   };
 
+  if (!loaded && loadError) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-8 text-center bg-stone-50">
+        <div className="text-4xl">🍵</div>
+        <h2 className="text-lg font-black text-stone-800">Could not open the shop database on this device</h2>
+        <p className="text-xs font-bold text-stone-500 break-words max-w-xs">{loadError}</p>
+        <p className="text-xs text-stone-400 max-w-xs">Nothing has been changed. Close other tabs of this app, check the browser is not in private mode, then try again.</p>
+        <button onClick={() => window.location.reload()} className="px-6 py-3 bg-stone-900 text-white rounded-2xl text-sm font-black">Try Again</button>
+      </div>
+    );
+  }
+
+  if (!loaded) {
+    return <div className="min-h-screen flex items-center justify-center text-4xl animate-pulse">🍵</div>;
+  }
+
   if (!user.isConfigured) return <SetupView />;
 
+  if (user.ownerPin && session === 'LOCKED') {
+    return (
+      <PinPad
+        title={activeOutlet?.name || user.businessName}
+        message="Enter the owner PIN"
+        onSubmit={unlock}
+        onCashier={() => {
+          setSession('CASHIER');
+          setActiveTab('dashboard');
+        }}
+        lockedUntil={pinAttempts.lockedUntil}
+      />
+    );
+  }
+
   return (
     <div className="max-w-md mx-auto min-h-screen bg-stone-50 pb-24 relative page-transition">
       <header className="sticky top-0 z-20 bg-stone-50/80 backdrop-blur-md px-6 py-4 flex items-center justify-between border-b border-stone-200">
         <div className="flex items-center gap-3">
           <div className="w-12 h-12 bg-amber-100 rounded-2xl overflow-hidden border border-amber-200 shadow-inner">
-             {user.shopImage ? <img src={user.shopImage} className="w-full h-full object-cover" /> : <div className="w-full h-full flex items-center justify-center text-xl">🍵</div>}
+             {activeOutlet?.shopImage || user.shopImage ? <img src={activeOutlet?.shopImage || user.shopImage} className="w-full h-full object-cover" /> : <div className="w-full h-full flex items-center justify-center text-xl">🍵</div>}
           </div>
           <div>
-            <h2 className="text-lg font-black text-stone-900 leading-tight">{user.businessName}</h2>
-            <p className="text-[10px] text-stone-400 font-bold uppercase tracking-wider line-clamp-1">{user.businessAddress}</p>
+            {outlets.length > 1 ? (
+              <select
+                value={outletId}
+                onChange={e => switchOutlet(e.target.value)}
+                className="text-lg font-black text-stone-900 leading-tight bg-transparent outline-none -ml-1"
+              >
+                {outlets.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+              </select>
+            ) : (
+              <h2 className="text-lg font-black text-stone-900 leading-tight">{activeOutlet?.name || user.businessName}</h2>
+            )}
+            <p className="text-[10px] text-stone-400 font-bold uppercase tracking-wider line-clamp-1">{activeOutlet?.address ?? user.businessAddress}</p>
           </div>
         </div>
-        <button onClick={() => setActiveTab('settings')} className="w-10 h-10 bg-white border border-stone-200 rounded-full flex items-center justify-center shadow-sm">
-           <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 1 1.72v.51a2 2 0 0 1-1 1.74l-.15.09a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l.22-.39a2 2 0 0 0-.73-2.73l-.15-.08a2 2 0 0 1-1-1.74v-.5a2 2 0 0 1 1-1.74l.15-.09a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z"/><circle cx="12" cy="12" r="3"/></svg>
-        </button>
+        <div className="flex items-center gap-2">
+          {user.ownerPin && (
+            <button
+              onClick={() => isOwner ? lock() : setSession('LOCKED')}
+              className={`px-3 py-2 rounded-full text-[9px] font-black uppercase tracking-widest ${isOwner ? 'bg-white border border-stone-200 text-stone-500' : 'bg-amber-100 text-amber-700'}`}
+            >
+              {isOwner ? 'Lock' : 'Cashier'}
+            </button>
+          )}
+          <button onClick={openSettings} className="w-10 h-10 bg-white border border-stone-200 rounded-full flex items-center justify-center shadow-sm">
+             <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 1 1.72v.51a2 2 0 0 1-1 1.74l-.15.09a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l.22-.39a2 2 0 0 0-.73-2.73l-.15-.08a2 2 0 0 1-1-1.74v-.5a2 2 0 0 1 1-1.74l.15-.09a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z"/><circle cx="12" cy="12" r="3"/></svg>
+          </button>
+        </div>
       </header>
 
       <main className="p-4 space-y-6">
         {activeTab === 'dashboard' && (
           <div className="space-y-6">
+            <PeriodSelector period={period} range={periodRange} onChange={setPeriod} />
+
             <div className="grid grid-cols-2 gap-4">
               <div className="bg-white p-4 rounded-3xl shadow-sm border border-stone-200">
-                <p className="text-stone-400 text-[10px] font-black uppercase tracking-widest mb-1">Daily Sales</p>
+                <p className="text-stone-400 text-[10px] font-black uppercase tracking-widest mb-1">Sales</p>
                 <p className="text-green-600 font-black text-xl">₹{totals.income}</p>
               </div>
               <div className="bg-white p-4 rounded-3xl shadow-sm border border-stone-200">
@@ -270,28 +826,77 @@ const App: React.FC = () => {
             </div>
 
             <div className="bg-stone-900 text-white p-7 rounded-[40px] shadow-2xl relative overflow-hidden">
-              <p className="text-stone-500 text-[10px] font-black uppercase tracking-widest mb-1">Net Daily Profit</p>
+              <p className="text-stone-500 text-[10px] font-black uppercase tracking-widest mb-1">Net Profit</p>
               <h3 className="text-4xl font-black mb-4">₹{profit}</h3>
               <div className="flex gap-2 text-[9px] font-black uppercase tracking-wider">
-                <span className="px-3 py-1.5 bg-white/10 border border-white/5 rounded-full">ACTIVE SESSION</span>
-                <span className="px-3 py-1.5 bg-white/10 border border-white/5 rounded-full">{staff.length} TEAM</span>
+                <span className="px-3 py-1.5 bg-white/10 border border-white/5 rounded-full">{periodRange.label}</span>
+                <span className="px-3 py-1.5 bg-white/10 border border-white/5 rounded-full">{outletStaff.length} TEAM</span>
               </div>
             </div>
 
-            <div className="bg-gradient-to-br from-amber-50 to-amber-100 p-6 rounded-[32px] border border-amber-200">
-              <div className="flex items-center justify-between mb-3">
-                <h4 className="text-amber-900 font-black text-xs uppercase tracking-widest">AI Advisor</h4>
-                <button onClick={fetchInsights} disabled={loadingInsights} className="text-[10px] font-bold text-amber-600">{loadingInsights ? '...' : 'Refresh'}</button>
-              </div>
-              <p className="text-amber-900/80 text-sm italic font-medium">"{insights}"</p>
-            </div>
+            <InsightCards insights={insights} loading={loadingInsights} periodLabel={periodRange.label} entryCount={periodTransactions.length} onRefresh={fetchInsights} />
 
-            <TransactionForm onAdd={addTransaction} editingTransaction={editingTransaction} onCancelEdit={() => setEditingTransaction(null)} />
+            {lowStock.length > 0 && (
+              <button onClick={() => openOwnerTab('stock')} className="w-full text-left bg-red-50 border border-red-200 p-5 rounded-[32px] space-y-1">
+                <h4 className="text-red-700 font-black text-xs uppercase tracking-widest">Low Stock</h4>
+                {lowStock.map(s => (
+                  <p key={s.item.id} className="text-xs font-bold text-red-600">
+                    {s.item.name}: {formatQty(s.onHand, s.item.unit)} left (reorder at {formatQty(s.item.reorderLevel, s.item.unit)})
+                  </p>
+                ))}
+              </button>
+            )}
+
+            <RecurringReview
+              entries={reviewQueue(outletTransactions)}
+              cutoffHour={cutoffHour}
+              onConfirm={ids => requireOwner('Reviewing expenses needs the owner PIN', () => confirmReviewed(ids))}
+              onAdjust={t => requireOwner('Editing entries needs the owner PIN', () => handleEditClick(t))}
+              onSkip={id => requireOwner('Deleting entries needs the owner PIN', () => deleteTransaction(id))}
+            />
+
+            {billsDue.length > 0 && (
+              <button onClick={openSuppliers} className="w-full text-left bg-orange-50 border border-orange-200 p-5 rounded-[32px] space-y-1">
+                <h4 className="text-orange-700 font-black text-xs uppercase tracking-widest">Bills Due</h4>
+                {billsDue.map(b => (
+                  <p key={b.bill.id} className={`text-xs font-bold ${b.overdueDays > 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                    {b.supplier.name}: ₹{b.balance} {b.overdueDays > 0 ? `overdue since ${formatDateKey(b.dueDate)}` : `due ${formatDateKey(b.dueDate)}`}
+                  </p>
+                ))}
+              </button>
+            )}
+
+            {openingCash && forecast.firstShortfall && (
+              <button onClick={() => setActiveTab('reports')} className="w-full text-left bg-red-50 border border-red-200 p-5 rounded-[32px] space-y-1">
+                <h4 className="text-red-700 font-black text-xs uppercase tracking-widest">Cash Running Low</h4>
+                <p className="text-xs font-bold text-red-600">
+                  Cash may fall below ₹{safetyThreshold} on {formatDateKey(forecast.firstShortfall.dateKey)} (₹{Math.round(forecast.firstShortfall.closing)} projected).
+                </p>
+              </button>
+            )}
+
+            <BudgetPanel categories={categories} transactions={outletTransactions} cutoffHour={cutoffHour} onChange={setCategories} requireOwner={action => requireOwner('Budgets need the owner PIN', action)} />
+
+            <DayCloseManager transactions={outletTransactions} dayCloses={outletDayCloses} outletId={outletId} cutoffHour={cutoffHour} onCloseDay={closeDay} onReopenDay={id => requireOwner('Reopening a day needs the owner PIN', () => reopenDay(id))} />
+
+            {showPos && !editingTransaction ? (
+              <PosScreen menu={menuItems} categories={categories} customers={customers} onSale={addTransaction} onClose={() => setShowPos(false)} />
+            ) : (
+              <>
+                <TransactionForm onAdd={addTransaction} categories={categories} stockItems={stockItems} customers={customers} editingTransaction={editingTransaction} onCancelEdit={() => setEditingTransaction(null)} salesOnly={!isOwner} />
+                {!editingTransaction && (
+                  <button onClick={() => setShowPos(true)} className="w-full bg-white border-2 border-dashed border-amber-200 text-amber-700 p-4 rounded-[32px] text-[10px] font-black uppercase tracking-widest">
+                    Quick Sale (POS)
+                  </button>
+                )}
+              </>
+            )}
 
             <div className="bg-white rounded-[32px] p-6 border border-stone-200">
               <h4 className="font-black text-stone-800 mb-5 text-sm uppercase tracking-widest">Recent Activity</h4>
               <div className="space-y-4">
-                {transactions.slice(0, 5).map(t => (
+                {periodTransactions.length === 0 && <p className="text-xs text-stone-400 font-bold">No entries for {periodRange.label.toLowerCase()}.</p>}
+                {periodTransactions.slice(0, 5).map(t => (
                   <div key={t.id} className="flex items-center justify-between group">
                     <div className="flex items-center gap-3">
                       <div className={`w-11 h-11 rounded-2xl flex items-center justify-center font-black ${t.type === TransactionType.INCOME ? 'bg-green-50 text-green-600 border border-green-100' : 'bg-red-50 text-red-600 border border-red-100'}`}>{t.type === TransactionType.INCOME ? '₹' : '−'}</div>
@@ -302,7 +907,7 @@ const App: React.FC = () => {
                     </div>
                     <div className="flex items-center gap-3">
                       <p className={`font-black text-lg ${t.type === TransactionType.INCOME ? 'text-green-600' : 'text-red-500'}`}>₹{t.amount}</p>
-                      <button onClick={() => handleEditClick(t)} className="p-2 opacity-0 group-hover:opacity-100 transition-opacity text-stone-300 hover:text-amber-500">
+                      <button onClick={() => requireOwner('Editing entries needs the owner PIN', () => handleEditClick(t))} className="p-2 opacity-0 group-hover:opacity-100 transition-opacity text-stone-300 hover:text-amber-500">
                         <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z"/></svg>
                       </button>
                     </div>
@@ -315,31 +920,32 @@ const App: React.FC = () => {
 
         {activeTab === 'logs' && (
           <div className="space-y-4">
-            <h3 className="text-2xl font-black px-2">Ledger</h3>
-            <div className="bg-white rounded-[40px] border border-stone-200 overflow-hidden divide-y divide-stone-100">
-               {transactions.map(t => (
-                  <div key={t.id} className="p-6">
-                    <div className="flex items-center justify-between mb-3">
-                      <div className="flex items-center gap-4">
-                        <span className={`w-12 h-12 rounded-2xl flex items-center justify-center text-xs font-black ${PAYMENT_METHODS.find(pm => pm.id === t.paymentMethod)?.color}`}>{t.paymentMethod.slice(0, 1)}</span>
-                        <div>
-                          <p className="text-sm font-black text-stone-800">{t.category}</p>
-                          <p className="text-[10px] font-bold text-stone-400 uppercase">{new Date(t.date).toLocaleDateString()}</p>
-                        </div>
-                      </div>
-                      <p className={`font-black text-lg ${t.type === TransactionType.INCOME ? 'text-green-600' : 'text-red-500'}`}>₹{t.amount}</p>
-                    </div>
-                    <div className="flex justify-end gap-6 pt-4 border-t border-stone-50">
-                      <button onClick={() => handleEditClick(t)} className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Edit</button>
-                      <button onClick={() => deleteTransaction(t.id)} className="text-[10px] font-black text-red-500 uppercase tracking-widest">Delete</button>
-                    </div>
-                  </div>
-                ))}
+            <div className="flex items-center justify-between px-2">
+              <h3 className="text-2xl font-black">Ledger</h3>
+              <button onClick={() => setLedgerView(ledgerView === 'entries' ? 'deleted' : 'entries')} className="text-[10px] font-black text-stone-500 uppercase tracking-widest underline">
+                {ledgerView === 'entries' ? `Recently Deleted (${deletedEntries.length})` : 'Back to Entries'}
+              </button>
             </div>
+            {ledgerView === 'deleted' ? (
+              <RecentlyDeleted entries={deletedEntries} onRestore={e => requireOwner('Restoring entries needs the owner PIN', () => restoreDeleted(e))} />
+            ) : (
+              <LedgerView
+                transactions={outletTransactions}
+                categories={categories}
+                staff={outletStaff}
+                auditLog={auditLog}
+                filter={ledgerFilter}
+                cutoffHour={cutoffHour}
+                isLocked={isLocked}
+                onEdit={t => requireOwner('Editing entries needs the owner PIN', () => handleEditClick(t))}
+                onDelete={id => requireOwner('Deleting entries needs the owner PIN', () => deleteTransaction(id))}
+                onFilterChange={setLedgerFilter}
+              />
+            )}
           </div>
         )}
 
-        {activeTab === 'staff' && <StaffManager staff={staff} onAddStaff={addStaff} onUpdateStaff={updateStaff} onAddTransaction={addTransaction} />}
+        {activeTab === 'staff' && <StaffManager staff={outletStaff} transactions={transactions} user={user} outlets={outlets} cutoffHour={cutoffHour} onAddStaff={addStaff} onUpdateStaff={updateStaff} onAddTransaction={addTransaction} requireOwner={action => requireOwner('Staff records need the owner PIN', action)} />}
 
         {activeTab === 'reports' && (
           <div className="space-y-6">
@@ -360,28 +966,127 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {paymentData.length > 0 && (
+              <div className="bg-white p-6 rounded-[40px] border border-stone-200">
+                <h4 className="text-[10px] font-black text-stone-400 uppercase tracking-widest mb-2 text-center">How Customers Paid • {periodRange.label}</h4>
+                <div className="h-48 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie data={paymentData} dataKey="value" nameKey="name" innerRadius={45} outerRadius={75} paddingAngle={2}>
+                        {paymentData.map(entry => <Cell key={entry.name} fill={METHOD_COLORS[entry.name]} />)}
+                      </Pie>
+                      <Tooltip contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="flex flex-wrap justify-center gap-4">
+                  {paymentData.map(entry => (
+                    <p key={entry.name} className="text-[10px] font-bold text-stone-600 flex items-center gap-1.5">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: METHOD_COLORS[entry.name] }}></span>
+                      {PAYMENT_METHODS.find(pm => pm.id === entry.name)?.label || entry.name} • {Math.round((entry.value / totals.income) * 100)}%
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <AnalyticsReport transactions={outletTransactions} cutoffHour={cutoffHour} />
+
+            <CashFlowForecast
+              key={outletId}
+              forecast={forecast}
+              opening={openingCash}
+              threshold={safetyThreshold}
+              onOpeningChange={amount => activeOutlet && requireOwner('Changing the cash balance needs the owner PIN', () => updateOutlet({ ...activeOutlet, cashOnHand: { amount, at: new Date().toISOString() } }))}
+              onThresholdChange={amount => activeOutlet && requireOwner('Changing the cash threshold needs the owner PIN', () => updateOutlet({ ...activeOutlet, cashSafetyThreshold: amount }))}
+            />
+
+            {outlets.length > 1 && (
+              <OutletComparison outlets={outlets} user={user} transactions={transactions} staff={staff} dayCloses={dayCloses} range={periodRange} />
+            )}
+
+            <ItemSalesReport transactions={periodTransactions} periodLabel={periodRange.label} />
+
+            <MarginReport menu={menuItems} stockItems={stockItems} transactions={transactions} cutoffHour={cutoffHour} />
+
+            <BudgetReport categories={categories} transactions={outletTransactions} cutoffHour={cutoffHour} />
+
+            {showImport && (
+              <CsvImportWizard existing={transactions} categories={categories} cutoffHour={cutoffHour} onImport={importTransactions} onClose={() => setShowImport(false)} />
+            )}
+
+            <button onClick={() => requireOwner('Importing entries needs the owner PIN', () => setShowImport(true))} className="w-full bg-white border-2 border-dashed border-stone-200 text-stone-600 p-4 rounded-[32px] text-[10px] font-black uppercase tracking-widest">
+              Import CSV
+            </button>
+
             <div className="grid grid-cols-2 gap-4">
-              <button onClick={() => setActiveTab('settings')} className="bg-stone-900 text-white p-6 rounded-[32px] flex flex-col items-center gap-3 transition-transform hover:scale-95 shadow-xl">
+              <button onClick={openSettings} className="bg-stone-900 text-white p-6 rounded-[32px] flex flex-col items-center gap-3 transition-transform hover:scale-95 shadow-xl">
                 <span className="text-3xl">☁️</span>
                 <span className="text-[10px] font-black uppercase tracking-widest">Cloud Sync</span>
               </button>
-              <button onClick={() => {
-                  const csv = transactions.map(t => `${t.date},${t.type},${t.amount},${t.category},${t.paymentMethod},"${t.notes || ''}"`).join('\n');
-                  const blob = new Blob([`Date,Type,Amount,Category,PaymentMethod,Notes\n${csv}`], { type: 'text/csv' });
-                  const url = URL.createObjectURL(blob);
-                  const a = document.createElement('a');
-                  a.href = url;
-                  a.download = `TeaStall_Records.csv`;
-                  a.click();
-                }} className="bg-white border-2 border-stone-100 text-stone-800 p-6 rounded-[32px] flex flex-col items-center gap-3 transition-transform hover:scale-95 shadow-sm">
+              <button onClick={() => requireOwner('Exports need the owner PIN', () => setShowExport(!showExport))} className="bg-white border-2 border-stone-100 text-stone-800 p-6 rounded-[32px] flex flex-col items-center gap-3 transition-transform hover:scale-95 shadow-sm">
                 <span className="text-3xl">📁</span>
                 <span className="text-[10px] font-black uppercase tracking-widest">Export Excel</span>
               </button>
             </div>
+
+            {showExport && <ExportPanel transactions={transactions} staff={staff} cutoffHour={cutoffHour} />}
+          </div>
+        )}
+
+        {activeTab === 'stock' && isOwner && (
+          <InventoryManager
+            items={stockItems}
+            counts={stockCounts}
+            transactions={transactions}
+            categories={categories}
+            cutoffHour={cutoffHour}
+            onAddItems={items => setStockItems(prev => [...prev, ...items])}
+            onUpdateItem={updateStockItem}
+            onSaveCount={saveStockCount}
+            onDeleteCount={id => setStockCounts(prev => prev.filter(c => c.id !== id))}
+          />
+        )}
+
+        {activeTab === 'khata' && isOwner && (
+          <div className="space-y-4">
+            <div className="flex gap-2 bg-stone-100 p-1 rounded-xl">
+              {(['customers', 'suppliers'] as const).map(v => (
+                <button
+                  key={v}
+                  onClick={() => setKhataView(v)}
+                  className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${khataView === v ? 'bg-white shadow-sm text-stone-800' : 'text-stone-500'}`}
+                >
+                  {v === 'customers' ? 'To Collect' : 'To Pay'}
+                </button>
+              ))}
+            </div>
+            {khataView === 'customers' ? (
+              <CustomerManager
+                customers={customers}
+                transactions={transactions}
+                user={user}
+                cutoffHour={cutoffHour}
+                onAddCustomer={c => setCustomers(prev => [...prev, c])}
+                onUpdateCustomer={updateCustomer}
+                onSettle={addTransaction}
+              />
+            ) : (
+              <SupplierManager
+                suppliers={suppliers}
+                transactions={transactions}
+                categories={categories}
+                stockItems={stockItems}
+                cutoffHour={cutoffHour}
+                onAddSupplier={s => setSuppliers(prev => [...prev, s])}
+                onUpdateSupplier={updateSupplier}
+                onAddTransaction={addTransaction}
+              />
+            )}
           </div>
         )}
 
-        {activeTab === 'settings' && (
+        {activeTab === 'settings' && isOwner && (
           <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-300">
             <h3 className="text-2xl font-black px-2">Store & Cloud</h3>
             
@@ -403,10 +1108,36 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            <div className="bg-white p-6 rounded-[40px] border border-stone-200">
+              <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest mb-2">Business Day</h4>
+              <p className="text-xs text-stone-500 font-medium mb-4">Open past midnight? Sales before the cutoff are counted in the previous day's totals.</p>
+              <select
+                value={cutoffHour}
+                onChange={e => activeOutlet
+                  ? updateOutlet({ ...activeOutlet, businessDayCutoffHour: Number(e.target.value) })
+                  : setUser({ ...user, businessDayCutoffHour: Number(e.target.value) })}
+                className="w-full p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm font-bold"
+              >
+                {[0, 1, 2, 3, 4, 5, 6].map(h => <option key={h} value={h}>{h === 0 ? 'Midnight (default)' : `${h}:00 AM`}</option>)}
+              </select>
+            </div>
+
+            <SecurityPanel user={user} onChange={setUser} onLockNow={lock} />
+
+            <OutletManager outlets={outlets} activeOutletId={outletId} onAdd={o => setOutlets(prev => [...prev, o])} onUpdate={updateOutlet} onSwitch={switchOutlet} />
+
+            <RecurringManager schedules={forOutlet(recurringExpenses, outletId)} categories={categories} todayKey={getBusinessDateKey(new Date(), cutoffHour)} onChange={updateRecurringExpenses} />
+
+            <MenuManager menu={menuItems} categories={categories} stockItems={stockItems} transactions={transactions} onChange={setMenuItems} />
+
+            <CategoryManager categories={categories} transactions={transactions} isLocked={isLocked} onChange={updateCategories} />
+
+            <BackupPanel data={{ user, transactions, staff, dayCloses, categories, stockItems, stockCounts, menuItems, customers, suppliers, recurringExpenses, outlets, auditLog }} onRestore={restoreBackup} />
+
             <div className="bg-blue-600 text-white p-6 rounded-[40px] shadow-lg">
               <h4 className="text-xs font-black uppercase tracking-widest mb-2">Google Sheets Sync</h4>
               <p className="text-xs opacity-90 mb-4 font-medium">To sync with Sheets, simply export to Excel and upload to Google Drive. The app automatically saves all data locally on your device for offline use.</p>
-              <button onClick={() => alert("Cloud backup is active on local storage. For real-time Google Sheets, use the Export Excel feature and import to Drive.")} className="w-full bg-white text-blue-600 font-black py-3 rounded-2xl text-xs uppercase tracking-widest">Force Cloud Sync</button>
+              <button onClick={() => alert("Data is stored only on this device. Use Backup & Restore to save a copy, and the Export Excel feature to import into Google Sheets.")} className="w-full bg-white text-blue-600 font-black py-3 rounded-2xl text-xs uppercase tracking-widest">Force Cloud Sync</button>
             </div>
 
             <button onClick={() => { if(window.confirm("Redo setup?")) setUser({...user, isConfigured: false}) }} className="w-full p-6 border-2 border-red-100 text-red-500 font-black rounded-[32px] uppercase text-xs tracking-widest flex items-center justify-center gap-2">
@@ -417,6 +1148,34 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {undo && (
+        <UndoToast
+          message={undo.message}
+          onUndo={() => {
+            // The day may have been closed while the toast was up
+            if (undo.affects.some(isLocked)) alert("This day's cash drawer has been closed since. Reopen the day to undo the change.");
+            else undo.revert();
+            setUndo(null);
+          }}
+          onDismiss={() => setUndo(null)}
+        />
+      )}
+
+      {pinRequest && (
+        <PinPad
+          title={pinRequest.title}
+          message="Hand the phone to the owner"
+          onSubmit={async pin => {
+            if (!(await checkPin(pin))) return false;
+            setPinRequest(null);
+            pinRequest.onUnlock();
+            return true;
+          }}
+          onCancel={() => setPinRequest(null)}
+          lockedUntil={pinAttempts.lockedUntil}
+        />
+      )}
+
       <nav className="fixed bottom-0 left-0 right-0 max-w-md mx-auto bg-white/90 backdrop-blur-xl border-t border-stone-100 flex justify-around items-center py-5 px-6 z-50 shadow-[0_-10px_30px_rgba(0,0,0,0.05)] rounded-t-[40px]">
         <button onClick={() => setActiveTab('dashboard')} className={`flex flex-col items-center gap-1.5 transition-all ${activeTab === 'dashboard' ? 'text-amber-600 scale-110' : 'text-stone-300'}`}>
           <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m3 9 9-7 9 7v11a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z"/><polyline points="9 22 9 12 15 12 15 22"/></svg>
@@ -434,6 +1193,14 @@ const App: React.FC = () => {
           <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="20" x2="18" y2="10"/><line x1="12" y1="20" x2="12" y2="4"/><line x1="6" y1="20" x2="6" y2="14"/></svg>
           <span className="text-[8px] font-black uppercase tracking-[0.2em]">Reports</span>
         </button>
+        <button onClick={() => openOwnerTab('stock')} className={`flex flex-col items-center gap-1.5 transition-all ${activeTab === 'stock' ? 'text-amber-600 scale-110' : 'text-stone-300'}`}>
+          <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16Z"/><path d="m3.3 7 8.7 5 8.7-5"/><path d="M12 22V12"/></svg>
+          <span className="text-[8px] font-black uppercase tracking-[0.2em]">Stock</span>
+        </button>
+        <button onClick={() => openOwnerTab('khata')} className={`flex flex-col items-center gap-1.5 transition-all ${activeTab === 'khata' ? 'text-amber-600 scale-110' : 'text-stone-300'}`}>
+          <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20"/><path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z"/></svg>
+          <span className="text-[8px] font-black uppercase tracking-[0.2em]">Khata</span>
+        </button>
       </nav>
     </div>
   );
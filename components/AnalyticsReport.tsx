@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import { METHOD_COLORS, PAYMENT_METHODS } from '../constants';
+import { addMonths, getBusinessDateKey, monthLabel } from '../services/dateUtils';
+import { WEEKDAY_LABELS, monthOverMonth, monthlyPnl, paymentMixByMonth, salesHeatmap } from '../services/analytics';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, PieChart, Pie, Cell } from 'recharts';
+
+interface AnalyticsReportProps {
+  transactions: Transaction[];
+  cutoffHour: number;
+}
+
+const SHARE_COLORS = ['#ef4444', '#F59E0B', '#3B82F6', '#8B5CF6', '#10b981', '#EC4899', '#14B8A6', '#6B7280'];
+
+const rupees = (n: number) => `₹${n.toLocaleString('en-IN')}`;
+
+const hourLabel = (h: number) => `${h % 12 || 12}${h < 12 ? 'a' : 'p'}`;
+
+export const AnalyticsReport: React.FC<AnalyticsReportProps> = ({ transactions, cutoffHour }) => {
+  const [monthKey, setMonthKey] = useState(getBusinessDateKey(new Date(), cutoffHour).slice(0, 7));
+
+  const pnl = useMemo(() => monthlyPnl(transactions, monthKey, cutoffHour), [transactions, monthKey, cutoffHour]);
+  const comparison = useMemo(() => monthOverMonth(transactions, monthKey, cutoffHour), [transactions, monthKey, cutoffHour]);
+  const paymentMix = useMemo(() => paymentMixByMonth(transactions, monthKey, 6, cutoffHour), [transactions, monthKey, cutoffHour]);
+  const heatmap = useMemo(() => salesHeatmap(transactions, monthKey, cutoffHour), [transactions, monthKey, cutoffHour]);
+
+  // Only the hours the stall actually trades, in business-day order (a 2 AM cutoff starts at 2)
+  const hours = Array.from({ length: 24 }, (_, i) => (i + cutoffHour) % 24).filter(h => heatmap.byHour[h] > 0);
+  const shade = (v: number) => ({ backgroundColor: v ? `rgba(245, 158, 11, ${0.15 + 0.85 * (v / heatmap.max)})` : '#fafaf9' });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-[40px] border border-stone-200">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest">Profit & Loss</h4>
+            <p className="text-[10px] text-stone-400 font-bold">{monthLabel(monthKey)}</p>
+          </div>
+          <input
+            type="month"
+            value={monthKey}
+            onChange={e => e.target.value && setMonthKey(e.target.value)}
+            className="p-2 bg-stone-50 border border-stone-200 rounded-xl text-xs font-bold outline-none"
+          />
+        </div>
+
+        {!pnl.totalIncome && !pnl.totalExpenses ? (
+          <p className="text-xs text-stone-400 font-bold">Nothing recorded for this month.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <tbody className="font-bold text-stone-700">
+              <tr><td colSpan={3} className="pt-1 pb-2 text-[10px] font-black uppercase text-stone-400">Income</td></tr>
+              {pnl.income.map(l => (
+                <tr key={l.category}>
+                  <td className="py-1 pl-2">{l.category}</td>
+                  <td className="py-1 text-right text-stone-400 text-[10px]">{l.share}%</td>
+                  <td className="py-1 text-right">{rupees(l.amount)}</td>
+                </tr>
+              ))}
+              <tr className="border-t border-stone-100 font-black">
+                <td className="py-2">Total Income</td>
+                <td></td>
+                <td className="py-2 text-right text-green-600">{rupees(pnl.totalIncome)}</td>
+              </tr>
+              <tr><td colSpan={3} className="pt-4 pb-2 text-[10px] font-black uppercase text-stone-400">Expenses</td></tr>
+              {pnl.expenses.map(l => (
+                <tr key={l.category}>
+                  <td className="py-1 pl-2">{l.category}</td>
+                  <td className="py-1 text-right text-stone-400 text-[10px]">{l.share}%</td>
+                  <td className="py-1 text-right">{rupees(l.amount)}</td>
+                </tr>
+              ))}
+              <tr className="border-t border-stone-100 font-black">
+                <td className="py-2">Total Expenses</td>
+                <td></td>
+                <td className="py-2 text-right text-red-500">{rupees(pnl.totalExpenses)}</td>
+              </tr>
+              <tr className="border-t-2 border-stone-800 font-black text-sm">
+                <td className="pt-3">Net Profit</td>
+                <td className="pt-3 text-right text-stone-400 text-[10px]">{pnl.margin}% margin</td>
+                <td className={`pt-3 text-right ${pnl.net < 0 ? 'text-red-500' : 'text-stone-900'}`}>{rupees(pnl.net)}</td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-[40px] border border-stone-200">
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest">Month over Month</h4>
+        <p className="text-[10px] text-stone-400 font-bold mb-4">{monthLabel(monthKey)} vs {monthLabel(addMonths(monthKey, -1))}</p>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] font-black uppercase text-stone-400 text-right">
+              <th className="text-left pb-2"></th>
+              <th className="pb-2">{monthLabel(monthKey).slice(0, 3)}</th>
+              <th className="pb-2">{monthLabel(addMonths(monthKey, -1)).slice(0, 3)}</th>
+              <th className="pb-2">Change</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-stone-100 font-bold text-stone-700">
+            {comparison.map(r => {
+              const good = r.change !== null && (r.change >= 0) === r.higherIsBetter;
+              return (
+                <tr key={r.label} className="text-right">
+                  <td className="py-2 text-left text-stone-400">{r.label}</td>
+                  <td className="py-2">{r.money ? rupees(r.current) : r.current}</td>
+                  <td className="py-2 text-stone-400">{r.money ? rupees(r.previous) : r.previous}</td>
+                  <td className={`py-2 font-black ${r.change === null || r.change === 0 ? 'text-stone-400' : good ? 'text-green-600' : 'text-red-500'}`}>
+                    {r.change === null ? '—' : `${r.change > 0 ? '+' : ''}${r.change}%`}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {pnl.expenses.length > 0 && (
+        <div className="bg-white p-6 rounded-[40px] border border-stone-200">
+          <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest mb-2">Where the Money Went</h4>
+          <div className="h-48 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie data={pnl.expenses} dataKey="amount" nameKey="category" innerRadius={45} outerRadius={75} paddingAngle={2}>
+                  {pnl.expenses.map((l, i) => <Cell key={l.category} fill={SHARE_COLORS[i % SHARE_COLORS.length]} />)}
+                </Pie>
+                <Tooltip contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2">
+            {pnl.expenses.map((l, i) => (
+              <p key={l.category} className="text-[10px] font-bold text-stone-600 flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: SHARE_COLORS[i % SHARE_COLORS.length] }}></span>
+                <span className="truncate">{l.category}</span>
+                <span className="ml-auto text-stone-400">{l.share}%</span>
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-[40px] border border-stone-200">
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest mb-4">Payment Mix • 6 Months</h4>
+        <div className="h-56 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={paymentMix}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f5f5f5" />
+              <XAxis dataKey="month" fontSize={9} axisLine={false} tickLine={false} fontWeight="bold" />
+              <YAxis fontSize={9} axisLine={false} tickLine={false} fontWeight="bold" />
+              <Tooltip contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+              <Legend wrapperStyle={{ fontSize: 10, fontWeight: 'bold' }} />
+              {PAYMENT_METHODS.map(pm => <Bar key={pm.id} dataKey={pm.id} name={pm.label} stackId="mix" fill={METHOD_COLORS[pm.id]} barSize={18} />)}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-[40px] border border-stone-200">
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest mb-1">Busy Hours</h4>
+        <p className="text-[10px] text-stone-400 font-bold mb-4">Sales by weekday and hour, {monthLabel(monthKey)}</p>
+        {!hours.length ? (
+          <p className="text-xs text-stone-400 font-bold">No sales this month.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-[9px] font-bold text-stone-500 border-separate" style={{ borderSpacing: 2 }}>
+              <thead>
+                <tr>
+                  <th></th>
+                  {hours.map(h => <th key={h} className="font-black text-stone-400 px-0.5">{hourLabel(h)}</th>)}
+                  <th className="font-black text-stone-400 pl-2 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {WEEKDAY_LABELS.map((day, d) => (
+                  <tr key={day}>
+                    <td className="font-black text-stone-400 pr-1">{day}</td>
+                    {hours.map(h => (
+                      <td key={h} title={`${day} ${hourLabel(h)}: ${rupees(heatmap.grid[d][h])}`} className="w-5 h-5 rounded" style={shade(heatmap.grid[d][h])}></td>
+                    ))}
+                    <td className="pl-2 text-right text-stone-700">{rupees(heatmap.byWeekday[d])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex gap-1 mt-3 text-[9px] font-bold text-stone-400">
+              <span>Peak hour:</span>
+              <span className="text-stone-700">{hourLabel(hours.reduce((best, h) => heatmap.byHour[h] > heatmap.byHour[best] ? h : best, hours[0]))}</span>
+              <span className="ml-3">Best day:</span>
+              <span className="text-stone-700">{WEEKDAY_LABELS[heatmap.byWeekday.indexOf(Math.max(...heatmap.byWeekday))]}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
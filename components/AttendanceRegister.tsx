@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { AttendanceEntry, AttendanceStatus, StaffMember } from '../types';
+import { ATTENDANCE_STATUSES } from '../constants';
+import { addDays, formatDateKey } from '../services/dateUtils';
+
+interface AttendanceRegisterProps {
+  staff: StaffMember[];
+  todayKey: string;
+  onUpdateStaff: (s: StaffMember) => void;
+  requireOwner: (action: () => void) => void;
+}
+
+export const AttendanceRegister: React.FC<AttendanceRegisterProps> = ({ staff, todayKey, onUpdateStaff, requireOwner }) => {
+  const [date, setDate] = useState(todayKey);
+  const [approved, setApproved] = useState(false);
+
+  // One owner PIN covers the rest of the marking while the register stays open
+  const guard = (change: () => void) => {
+    if (approved) change();
+    else requireOwner(() => {
+      setApproved(true);
+      change();
+    });
+  };
+
+  const saveEntry = (s: StaffMember, entry: AttendanceEntry | null) => {
+    const others = s.attendance.filter(a => a.date !== date);
+    onUpdateStaff({ ...s, attendance: entry ? [...others, entry] : others });
+  };
+
+  const toggleStatus = (s: StaffMember, status: AttendanceStatus) => {
+    const current = s.attendance.find(a => a.date === date);
+    // Tapping the selected status again clears the mark
+    if (current?.status === status) saveEntry(s, null);
+    else saveEntry(s, { date, status, overtimeHours: current?.overtimeHours });
+  };
+
+  const setOvertime = (s: StaffMember, hours: number) => {
+    const current = s.attendance.find(a => a.date === date);
+    saveEntry(s, { date, status: current?.status || 'PRESENT', overtimeHours: hours || undefined });
+  };
+
+  if (staff.length === 0) return null;
+
+  return (
+    <div className="bg-white p-5 rounded-3xl border border-stone-200 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-bold text-stone-800">Attendance</h4>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setDate(addDays(date, -1))} className="w-7 h-7 rounded-full bg-stone-100 text-stone-500 font-bold">‹</button>
+          <span className="text-xs font-bold text-stone-600 w-16 text-center">{date === todayKey ? 'Today' : formatDateKey(date)}</span>
+          <button onClick={() => setDate(addDays(date, 1))} disabled={date >= todayKey} className="w-7 h-7 rounded-full bg-stone-100 text-stone-500 font-bold disabled:opacity-30">›</button>
+        </div>
+      </div>
+      <div className="space-y-3">
+        {staff.map(s => {
+          const entry = s.attendance.find(a => a.date === date);
+          return (
+            <div key={s.id} className="flex items-center gap-2">
+              <span className="flex-1 text-sm font-bold text-stone-700 line-clamp-1">{s.name}</span>
+              {ATTENDANCE_STATUSES.map(st => (
+                <button
+                  key={st.id}
+                  title={st.name}
+                  onClick={() => guard(() => toggleStatus(s, st.id as AttendanceStatus))}
+                  className={`w-8 h-8 rounded-lg text-xs font-black transition-all ${entry?.status === st.id ? st.color : 'bg-stone-50 text-stone-300'}`}
+                >
+                  {st.label}
+                </button>
+              ))}
+              <input
+                type="number"
+                min={0}
+                value={entry?.overtimeHours || ''}
+                onChange={e => {
+                  const hours = Number(e.target.value);
+                  guard(() => setOvertime(s, hours));
+                }}
+                className="w-12 p-1 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs text-right"
+                placeholder="OT h"
+              />
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-stone-400 mt-3">Unmarked days are paid as present.</p>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState, useRef } from 'react';
+import { BackupData, BackupFile, RestoreMode, createBackup, isEncryptedBackup, previewBackup, readBackup } from '../services/backup';
+import { CollectionStore } from '../services/storage';
+import { downloadBlob } from '../services/download';
+
+interface BackupPanelProps {
+  data: BackupData;
+  onRestore: (data: BackupData, mode: RestoreMode) => void;
+}
+
+const STORE_LABELS: Record<CollectionStore, string> = {
+  transactions: 'Transactions',
+  staff: 'Staff',
+  dayCloses: 'Day Closes',
+  categories: 'Categories',
+  stockItems: 'Stock Items',
+  stockCounts: 'Stock Counts',
+  menuItems: 'Menu Items',
+  customers: 'Customers',
+  suppliers: 'Suppliers',
+  recurringExpenses: 'Recurring Expenses',
+  outlets: 'Outlets',
+  auditLog: 'Change Log'
+};
+
+const shortDate = (iso?: string) => iso ? new Date(iso).toLocaleDateString() : '—';
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({ data, onRestore }) => {
+  const [exportPass, setExportPass] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [needsPass, setNeedsPass] = useState(false);
+  const [restorePass, setRestorePass] = useState('');
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await createBackup(data, exportPass || undefined);
+      downloadBlob(blob, `ChaiInsights_Backup_${new Date().toISOString().slice(0, 10)}.json`);
+      setExportPass('');
+    } catch (err) {
+      console.error("Backup Error:", err);
+      alert("Could not create the backup file.");
+    }
+    setExporting(false);
+  };
+
+  const verify = async (text: string, passphrase?: string) => {
+    setError('');
+    try {
+      setBackup(await readBackup(text, passphrase));
+      setNeedsPass(false);
+    } catch (err) {
+      setBackup(null);
+      setError((err as Error).message);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const text = reader.result as string;
+      setFileText(text);
+      setBackup(null);
+      setError('');
+      if (isEncryptedBackup(text)) setNeedsPass(true);
+      else verify(text);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleRestore = (mode: RestoreMode) => {
+    if (!backup) return;
+    if (mode === 'REPLACE' && !window.confirm("Replace ALL data on this device with the backup? Entries not in the backup will be lost.")) return;
+    onRestore(backup.data, mode);
+    setBackup(null);
+    setFileText(null);
+  };
+
+  const preview = backup ? previewBackup(backup) : null;
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200 space-y-4">
+      <div>
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest mb-2">Backup & Restore</h4>
+        <p className="text-xs text-stone-500 font-medium">Your books live only on this phone. Download a backup regularly and keep it in Drive or WhatsApp.</p>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={exportPass}
+          onChange={e => setExportPass(e.target.value)}
+          placeholder="Passphrase (optional)"
+          className="flex-1 p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm"
+        />
+        <button onClick={handleExport} disabled={exporting} className="bg-stone-900 text-white font-black px-4 rounded-2xl text-[10px] uppercase tracking-widest disabled:opacity-50">
+          {exporting ? '...' : 'Download'}
+        </button>
+      </div>
+
+      <button onClick={() => fileInputRef.current?.click()} className="w-full p-3 border-2 border-dashed border-stone-200 rounded-2xl text-xs font-bold text-stone-500">
+        Choose backup file to restore
+      </button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+
+      {needsPass && fileText && (
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={restorePass}
+            onChange={e => setRestorePass(e.target.value)}
+            placeholder="Backup passphrase"
+            className="flex-1 p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm"
+          />
+          <button onClick={() => verify(fileText, restorePass)} className="bg-amber-600 text-white font-black px-4 rounded-2xl text-[10px] uppercase tracking-widest">Unlock</button>
+        </div>
+      )}
+
+      {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+
+      {preview && (
+        <div className="bg-stone-50 rounded-2xl p-4 space-y-2 text-xs animate-in slide-in-from-top-2 duration-200">
+          <p className="font-black text-stone-800">{preview.businessName}</p>
+          <p className="text-stone-400 font-bold">Backed up {new Date(preview.exportedAt).toLocaleString()} • checksum verified</p>
+          {preview.collections.map(c => (
+            <div key={c.store} className="flex justify-between font-bold text-stone-600">
+              <span>{STORE_LABELS[c.store]}: {c.count}</span>
+              <span className="text-stone-400">{c.count ? `${shortDate(c.from)} – ${shortDate(c.to)}` : ''}</span>
+            </div>
+          ))}
+          <div className="flex gap-2 pt-2">
+            <button onClick={() => handleRestore('MERGE')} className="flex-1 bg-stone-900 text-white font-bold py-2 rounded-xl">Merge</button>
+            <button onClick={() => handleRestore('REPLACE')} className="flex-1 border-2 border-red-100 text-red-500 font-bold py-2 rounded-xl">Replace All</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Category, Transaction, TransactionType } from '../types';
+import { budgetLines, setMonthlyBudget } from '../services/budget';
+import { categoriesFor } from '../services/categories';
+import { getBusinessDateKey, monthLabel } from '../services/dateUtils';
+
+interface BudgetPanelProps {
+  categories: Category[];
+  transactions: Transaction[];
+  cutoffHour: number;
+  onChange: (categories: Category[]) => void;
+  requireOwner: (action: () => void) => void; // Setting budgets needs the owner PIN in cashier mode
+}
+
+const barColor = (percent: number) => percent > 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-green-500';
+
+export const BudgetPanel: React.FC<BudgetPanelProps> = ({ categories, transactions, cutoffHour, onChange, requireOwner }) => {
+  const [editing, setEditing] = useState(false);
+  const monthKey = getBusinessDateKey(new Date(), cutoffHour).slice(0, 7);
+  const lines = budgetLines(categories, transactions, monthKey, cutoffHour);
+
+  return (
+    <div className="bg-white rounded-[32px] p-6 border border-stone-200">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h4 className="font-black text-stone-800 text-sm uppercase tracking-widest">Budgets</h4>
+          <p className="text-[10px] text-stone-400 font-bold uppercase">{monthLabel(monthKey)}</p>
+        </div>
+        <button onClick={() => editing ? setEditing(false) : requireOwner(() => setEditing(true))} className="text-[10px] font-bold text-amber-600">{editing ? 'Done' : 'Set Budgets'}</button>
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          {categoriesFor(categories, TransactionType.EXPENSE).map(c => (
+            <div key={c.id} className="flex items-center gap-2">
+              <span className="flex-1 text-xs font-bold text-stone-600">{c.name}</span>
+              <input
+                type="number"
+                min="0"
+                value={c.monthlyBudget || ''}
+                onChange={e => onChange(setMonthlyBudget(categories, c.id, Number(e.target.value)))}
+                placeholder="No limit"
+                className="w-28 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs font-bold text-right"
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {lines.length === 0 && <p className="text-xs text-stone-400 font-bold">No budgets set. Tap Set Budgets to cap monthly spend per category.</p>}
+          {lines.map(l => (
+            <div key={l.category}>
+              <div className="flex justify-between text-xs font-bold mb-1">
+                <span className="text-stone-700">{l.category}</span>
+                <span className={l.remaining < 0 ? 'text-red-500' : 'text-stone-400'}>
+                  ₹{l.spent.toLocaleString('en-IN')} / ₹{l.budget.toLocaleString('en-IN')}
+                </span>
+              </div>
+              <div className="h-2 bg-stone-100 rounded-full overflow-hidden">
+                <div className={`h-full ${barColor(l.percent)}`} style={{ width: `${Math.min(l.percent, 100)}%` }} />
+              </div>
+              {l.remaining < 0 && <p className="text-[10px] font-bold text-red-500 mt-1">Over by ₹{(-l.remaining).toLocaleString('en-IN')}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
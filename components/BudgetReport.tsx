@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Category, Transaction } from '../types';
+import { budgetLines } from '../services/budget';
+import { getBusinessDateKey, monthLabel } from '../services/dateUtils';
+
+interface BudgetReportProps {
+  categories: Category[];
+  transactions: Transaction[];
+  cutoffHour: number;
+}
+
+export const BudgetReport: React.FC<BudgetReportProps> = ({ categories, transactions, cutoffHour }) => {
+  const [monthKey, setMonthKey] = useState(getBusinessDateKey(new Date(), cutoffHour).slice(0, 7));
+  const lines = budgetLines(categories, transactions, monthKey, cutoffHour, true);
+  const totals = lines.reduce((acc, l) => ({ budget: acc.budget + l.budget, spent: acc.spent + l.spent }), { budget: 0, spent: 0 });
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest">Budget vs Actual</h4>
+          <p className="text-[10px] text-stone-400 font-bold">{monthLabel(monthKey)}</p>
+        </div>
+        <input
+          type="month"
+          value={monthKey}
+          onChange={e => e.target.value && setMonthKey(e.target.value)}
+          className="p-2 bg-stone-50 border border-stone-200 rounded-xl text-xs font-bold outline-none"
+        />
+      </div>
+
+      {lines.length === 0 ? (
+        <p className="text-xs text-stone-400 font-bold">No expenses recorded for this month.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] font-black uppercase text-stone-400 text-right">
+              <th className="text-left pb-2">Category</th>
+              <th className="pb-2">Budget</th>
+              <th className="pb-2">Actual</th>
+              <th className="pb-2">Variance</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-stone-100 font-bold text-right">
+            {lines.map(l => (
+              <tr key={l.category}>
+                <td className="text-left py-2 text-stone-700">{l.category}</td>
+                <td className="py-2 text-stone-400">{l.budget ? `₹${l.budget.toLocaleString('en-IN')}` : '—'}</td>
+                <td className="py-2 text-stone-700">₹{l.spent.toLocaleString('en-IN')}</td>
+                <td className={`py-2 ${!l.budget ? 'text-stone-300' : l.remaining < 0 ? 'text-red-500' : 'text-green-600'}`}>
+                  {l.budget ? `${l.remaining < 0 ? '−' : '+'}₹${Math.abs(l.remaining).toLocaleString('en-IN')}` : '—'}
+                </td>
+              </tr>
+            ))}
+            <tr className="font-black">
+              <td className="text-left py-2">Total</td>
+              <td className="py-2">₹{totals.budget.toLocaleString('en-IN')}</td>
+              <td className="py-2">₹{totals.spent.toLocaleString('en-IN')}</td>
+              <td className="py-2" />
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
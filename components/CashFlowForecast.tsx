@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { formatDateKey } from '../services/dateUtils';
+import { CashForecast, FORECAST_DAYS, ForecastKind, OpeningCash } from '../services/cashForecast';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+
+interface CashFlowForecastProps {
+  forecast: CashForecast;
+  opening?: OpeningCash; // Unknown until the owner enters a balance or closes a day
+  threshold: number;
+  onOpeningChange: (amount: number) => void;
+  onThresholdChange: (amount: number) => void;
+}
+
+const KIND_COLORS: Record<ForecastKind, string> = {
+  SPEND: 'text-stone-500',
+  REGULAR: 'text-stone-700',
+  SCHEDULED: 'text-stone-700',
+  BILL: 'text-orange-600',
+  PAYROLL: 'text-amber-700',
+  HOLD: 'text-amber-700'
+};
+
+const rupees = (n: number) => `₹${Math.round(n).toLocaleString('en-IN')}`;
+
+export const CashFlowForecast: React.FC<CashFlowForecastProps> = ({ forecast, opening, threshold, onOpeningChange, onThresholdChange }) => {
+  const [draft, setDraft] = useState('');
+  const [thresholdDraft, setThresholdDraft] = useState('');
+
+  const saveOpening = () => {
+    if (draft === '' || isNaN(Number(draft))) return;
+    onOpeningChange(Number(draft));
+    setDraft('');
+  };
+
+  const saveThreshold = () => {
+    if (thresholdDraft === '' || isNaN(Number(thresholdDraft))) return;
+    onThresholdChange(Math.max(0, Number(thresholdDraft)));
+    setThresholdDraft('');
+  };
+
+  const chartData = forecast.days.map(d => ({ date: formatDateKey(d.dateKey), closing: d.closing }));
+  const eventDays = forecast.days.filter(d => d.items.length || d.belowThreshold);
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200 space-y-4">
+      <div>
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest">Cash Flow • Next {FORECAST_DAYS} Days</h4>
+        <p className="text-[10px] text-stone-400 font-bold">Average takings in; regular bills, supplier dues and staff pay (including held pay) out.</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-[10px] font-black uppercase text-stone-400">
+          Cash & UPI now
+          <div className="flex gap-1 mt-1">
+            <input
+              type="number"
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              placeholder={opening ? Math.round(opening.amount).toString() : 'Enter amount'}
+              className="w-full p-2 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm font-bold text-stone-700"
+            />
+            {draft !== '' && <button onClick={saveOpening} className="px-3 bg-stone-900 text-white rounded-xl text-[10px] font-black">Save</button>}
+          </div>
+        </label>
+        <label className="text-[10px] font-black uppercase text-stone-400">
+          Keep at least
+          <div className="flex gap-1 mt-1">
+            <input
+              type="number"
+              value={thresholdDraft}
+              onChange={e => setThresholdDraft(e.target.value)}
+              placeholder={threshold.toString()}
+              className="w-full p-2 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm font-bold text-stone-700"
+            />
+            {thresholdDraft !== '' && <button onClick={saveThreshold} className="px-3 bg-stone-900 text-white rounded-xl text-[10px] font-black">Save</button>}
+          </div>
+        </label>
+      </div>
+
+      {opening?.source === 'DAY_CLOSE' && (
+        <p className="text-[10px] font-bold text-stone-400">
+          Starting from the drawer counted on {formatDateKey(opening.since)} plus entries since; UPI balances are not included until you enter a total.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 text-xs font-bold">
+        <div className="p-3 bg-stone-50 rounded-2xl">
+          <p className="text-[10px] font-black uppercase text-stone-400">Takings / day</p>
+          <p className="text-green-600">{rupees(forecast.averageDailySales)}</p>
+        </div>
+        <div className="p-3 bg-stone-50 rounded-2xl">
+          <p className="text-[10px] font-black uppercase text-stone-400">Spend / day</p>
+          <p className="text-red-500">{rupees(forecast.dailySpend + forecast.dailyPayroll)}</p>
+        </div>
+        <div className="p-3 bg-stone-50 rounded-2xl">
+          <p className="text-[10px] font-black uppercase text-stone-400">Held pay owed</p>
+          <p className="text-amber-700">{rupees(forecast.escrowLiability)}</p>
+        </div>
+        <div className={`p-3 rounded-2xl ${opening && forecast.firstShortfall ? 'bg-red-50' : 'bg-stone-50'}`}>
+          <p className="text-[10px] font-black uppercase text-stone-400">Lowest</p>
+          <p className={opening && forecast.firstShortfall ? 'text-red-600' : 'text-stone-800'}>
+            {opening && forecast.lowest ? `${rupees(forecast.lowest.closing)} on ${formatDateKey(forecast.lowest.dateKey)}` : '—'}
+          </p>
+        </div>
+      </div>
+
+      {!opening && (
+        <p className="p-3 bg-stone-50 rounded-2xl text-xs font-bold text-stone-500">
+          Enter the cash and UPI money you have now, or close a day's drawer, to see projected balances.
+        </p>
+      )}
+
+      {opening && forecast.firstShortfall && (
+        <p className="p-3 bg-red-50 border border-red-200 rounded-2xl text-xs font-bold text-red-700">
+          Cash is projected to drop below {rupees(threshold)} on {formatDateKey(forecast.firstShortfall.dateKey, { weekday: 'short', day: 'numeric', month: 'short' })}.
+        </p>
+      )}
+
+      {opening && (
+        <div className="h-48 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f5f5f5" />
+              <XAxis dataKey="date" fontSize={9} axisLine={false} tickLine={false} fontWeight="bold" interval={6} />
+              <YAxis fontSize={9} axisLine={false} tickLine={false} fontWeight="bold" />
+              <Tooltip contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+              <ReferenceLine y={threshold} stroke="#ef4444" strokeDasharray="4 4" />
+              <Area type="monotone" dataKey="closing" stroke="#F59E0B" fill="#FEF3C7" strokeWidth={2} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {opening && eventDays.length > 0 && (
+        <div className="divide-y divide-stone-100 border border-stone-100 rounded-2xl">
+          {eventDays.map(d => (
+            <div key={d.dateKey} className={`p-3 text-xs ${d.belowThreshold ? 'bg-red-50' : ''}`}>
+              <div className="flex justify-between font-black">
+                <span className="text-stone-700">{formatDateKey(d.dateKey, { weekday: 'short', day: 'numeric', month: 'short' })}</span>
+                <span className={d.belowThreshold ? 'text-red-600' : 'text-stone-800'}>{rupees(d.closing)}</span>
+              </div>
+              {d.items.map((item, i) => (
+                <p key={i} className={`text-[10px] font-bold ${KIND_COLORS[item.kind]}`}>− {rupees(item.amount)} {item.label}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {forecast.unscheduledHeld > 0 && (
+        <p className="text-[10px] font-bold text-stone-400">
+          Not projected: {rupees(forecast.unscheduledHeld)} held for staff who draw it on request.
+        </p>
+      )}
+    </div>
+  );
+};
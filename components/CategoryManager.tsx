@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Category, Transaction, TransactionType } from '../types';
+import { CategoryMove, addCategory, categoriesFor, countByCategory, mergeCategory, moveCategory, renameCategory, setCategoryArchived } from '../services/categories';
+
+interface CategoryManagerProps {
+  categories: Category[];
+  transactions: Transaction[];
+  isLocked: (t: Transaction) => boolean;
+  onChange: (categories: Category[], transactions?: Transaction[], move?: CategoryMove) => void;
+}
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, transactions, isLocked, onChange }) => {
+  const [type, setType] = useState<TransactionType>(TransactionType.EXPENSE);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeInto, setMergeInto] = useState('');
+
+  const list = categoriesFor(categories, type, true);
+  const counts = countByCategory(transactions);
+  const usage = (c: Category) => counts[`${c.type}|${c.name}`] || 0;
+
+  // The service throws with a message meant for the user
+  const attempt = (fn: () => void) => {
+    try {
+      fn();
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const handleAdd = () => attempt(() => {
+    onChange(addCategory(categories, newName, type));
+    setNewName('');
+  });
+
+  const handleRename = (c: Category) => attempt(() => {
+    if (renameText.trim() === c.name) return setRenamingId(null);
+    const result = renameCategory(categories, transactions, c.id, renameText, isLocked);
+    const kept = result.locked ? `\n${result.locked} entries on days whose cash drawer is closed will keep "${c.name}".` : '';
+    if (usage(c) && !window.confirm(`Rename "${c.name}" to "${renameText.trim()}" on ${usage(c) - result.locked} existing entries?${kept}`)) return;
+    onChange(result.categories, result.transactions, result.move);
+    setRenamingId(null);
+  });
+
+  const handleMerge = (c: Category) => attempt(() => {
+    const target = categories.find(x => x.id === mergeInto);
+    const result = mergeCategory(categories, transactions, c.id, mergeInto, isLocked);
+    const kept = result.locked ? `\n${result.locked} entries on days whose cash drawer is closed will stay in "${c.name}", which will be archived instead.` : '';
+    if (!window.confirm(`Move ${usage(c) - result.locked} entries from "${c.name}" into "${target?.name}" and remove "${c.name}"?${kept}`)) return;
+    onChange(result.categories, result.transactions, result.move);
+    setMergingId(null);
+  });
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200 space-y-4">
+      <div>
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest mb-2">Categories</h4>
+        <p className="text-xs text-stone-500 font-medium">Renames and merges update past entries too. Archived categories stay on old entries but are hidden when adding new ones.</p>
+      </div>
+
+      <div className="flex gap-2 bg-stone-100 p-1 rounded-xl">
+        {[TransactionType.INCOME, TransactionType.EXPENSE].map(t => (
+          <button
+            key={t}
+            onClick={() => { setType(t); setRenamingId(null); setMergingId(null); }}
+            className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${type === t ? 'bg-white shadow-sm text-stone-800' : 'text-stone-500'}`}
+          >
+            {t === TransactionType.INCOME ? 'Income' : 'Expense'}
+          </button>
+        ))}
+      </div>
+
+      <div className="divide-y divide-stone-100 border border-stone-100 rounded-2xl">
+        {list.map((c, i) => (
+          <div key={c.id} className={`p-3 space-y-2 ${c.archived ? 'bg-stone-50' : ''}`}>
+            {renamingId === c.id ? (
+              <div className="flex gap-2">
+                <input
+                  value={renameText}
+                  onChange={e => setRenameText(e.target.value)}
+                  autoFocus
+                  className="flex-1 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs font-bold"
+                />
+                <button onClick={() => handleRename(c)} className="bg-stone-900 text-white font-bold px-3 rounded-lg text-xs">Save</button>
+                <button onClick={() => setRenamingId(null)} className="text-stone-400 font-bold text-xs">Cancel</button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <div className="flex flex-col">
+                  <button onClick={() => onChange(moveCategory(categories, c.id, -1))} disabled={i === 0} className="text-[10px] text-stone-400 disabled:opacity-20">▲</button>
+                  <button onClick={() => onChange(moveCategory(categories, c.id, 1))} disabled={i === list.length - 1} className="text-[10px] text-stone-400 disabled:opacity-20">▼</button>
+                </div>
+                <div className="flex-1">
+                  <p className={`text-sm font-bold ${c.archived ? 'text-stone-400' : 'text-stone-800'}`}>
+                    {c.name}
+                    {c.protected && <span className="ml-2 text-[9px] font-black uppercase text-amber-600">🔒 Auto</span>}
+                    {c.archived && <span className="ml-2 text-[9px] font-black uppercase text-stone-400">Archived</span>}
+                  </p>
+                  <p className="text-[10px] text-stone-400 font-bold">{usage(c)} entries</p>
+                </div>
+                {!c.protected && (
+                  <div className="flex gap-2 text-[10px] font-black uppercase">
+                    <button onClick={() => { setRenamingId(c.id); setRenameText(c.name); setMergingId(null); }} className="text-stone-500">Rename</button>
+                    <button onClick={() => { setMergingId(c.id); setMergeInto(''); setRenamingId(null); }} className="text-stone-500">Merge</button>
+                    <button onClick={() => attempt(() => onChange(setCategoryArchived(categories, c.id, !c.archived)))} className={c.archived ? 'text-green-600' : 'text-red-500'}>
+                      {c.archived ? 'Restore' : 'Archive'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {mergingId === c.id && (
+              <div className="flex gap-2 animate-in slide-in-from-top-2 duration-200">
+                <select
+                  value={mergeInto}
+                  onChange={e => setMergeInto(e.target.value)}
+                  className="flex-1 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs"
+                >
+                  <option value="">Merge into…</option>
+                  {list.filter(x => x.id !== c.id && !x.protected).map(x => <option key={x.id} value={x.id}>{x.name}</option>)}
+                </select>
+                <button onClick={() => handleMerge(c)} disabled={!mergeInto} className="bg-amber-600 text-white font-bold px-3 rounded-lg text-xs disabled:opacity-30">Merge</button>
+                <button onClick={() => setMergingId(null)} className="text-stone-400 font-bold text-xs">Cancel</button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          placeholder={type === TransactionType.INCOME ? 'e.g. Biscuits' : 'e.g. Electricity'}
+          className="flex-1 p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm"
+        />
+        <button onClick={handleAdd} className="bg-stone-900 text-white font-black px-4 rounded-2xl text-[10px] uppercase tracking-widest">Add</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Category, Transaction, TransactionType } from '../types';
+import { CsvTable, parseCsv } from '../services/csv';
+import { ColumnMapping, IMPORT_FIELDS, guessMapping, validateImport } from '../services/csvImport';
+
+interface CsvImportWizardProps {
+  existing: Transaction[];
+  categories: Category[];
+  cutoffHour: number;
+  onImport: (transactions: Transaction[]) => void;
+  onClose: () => void;
+}
+
+export const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ existing, categories, cutoffHour, onImport, onClose }) => {
+  const [table, setTable] = useState<CsvTable>({ rows: [], lines: [] });
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [step, setStep] = useState<'file' | 'map' | 'preview'>('file');
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const parsed = parseCsv(reader.result as string);
+      if (!parsed.rows.length) return alert("The file is empty.");
+      setTable(parsed);
+      setMapping(guessMapping(parsed.rows[0]));
+      setStep('map');
+    };
+    reader.readAsText(file);
+  };
+
+  const results = useMemo(
+    () => step === 'preview' && mapping ? validateImport(table, mapping, existing, categories, hasHeader, cutoffHour) : [],
+    [step, table, mapping, existing, categories, hasHeader, cutoffHour]
+  );
+
+  const valid = results.filter(r => r.transaction && (includeDuplicates || !r.duplicateOf));
+  const errorCount = results.filter(r => r.errors.length).length;
+  const duplicateCount = results.filter(r => r.duplicateOf).length;
+
+  const columns = table.rows[0]?.map((h, i) => hasHeader ? h || `Column ${i + 1}` : `Column ${i + 1} (${h})`) || [];
+  const missingRequired = mapping ? IMPORT_FIELDS.filter(f => f.required && mapping[f.id] < 0) : [];
+
+  const handleImport = () => {
+    if (!valid.length) return;
+    onImport(valid.map(r => r.transaction!));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200 space-y-4 animate-in slide-in-from-top-4 duration-300">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest">Import CSV</h4>
+        <button onClick={onClose} className="text-xs font-bold text-stone-400 underline">Close</button>
+      </div>
+
+      {step === 'file' && (
+        <>
+          <p className="text-xs text-stone-500 font-medium">Bring in entries from a spreadsheet, an old export or a UPI statement saved as CSV.</p>
+          <button onClick={() => fileInputRef.current?.click()} className="w-full p-6 border-2 border-dashed border-stone-200 rounded-2xl text-xs font-bold text-stone-500">Choose CSV file</button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+        </>
+      )}
+
+      {step === 'map' && mapping && (
+        <>
+          <label className="flex items-center gap-2 text-xs font-bold text-stone-600">
+            <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} />
+            First row is a header
+          </label>
+          <div className="space-y-2">
+            {IMPORT_FIELDS.map(f => (
+              <div key={f.id} className="flex items-center gap-2">
+                <span className="w-28 text-[10px] font-black uppercase text-stone-500">{f.label}{f.required ? ' *' : ''}</span>
+                <select
+                  value={mapping[f.id]}
+                  onChange={e => setMapping({ ...mapping, [f.id]: Number(e.target.value) })}
+                  className="flex-1 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs"
+                >
+                  <option value={-1}>{f.id === 'type' ? '— Use sign of amount —' : f.id === 'paymentMethod' ? '— Assume Cash —' : '— Not mapped —'}</option>
+                  {columns.map((c, i) => <option key={i} value={i}>{c}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+          {missingRequired.length > 0 && <p className="text-xs font-bold text-red-500">Map {missingRequired.map(f => f.label).join(', ')} to continue.</p>}
+          <div className="flex gap-2">
+            <button onClick={() => setStep('file')} className="flex-1 text-stone-400 font-bold text-xs">Back</button>
+            <button onClick={() => setStep('preview')} disabled={missingRequired.length > 0} className="flex-1 bg-stone-900 text-white font-bold py-3 rounded-xl text-xs disabled:opacity-30">Preview</button>
+          </div>
+        </>
+      )}
+
+      {step === 'preview' && (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-green-50 p-3 rounded-2xl"><p className="text-lg font-black text-green-600">{results.length - errorCount}</p><p className="text-[9px] font-black uppercase text-green-700">Valid</p></div>
+            <div className="bg-red-50 p-3 rounded-2xl"><p className="text-lg font-black text-red-500">{errorCount}</p><p className="text-[9px] font-black uppercase text-red-600">Errors</p></div>
+            <div className="bg-amber-50 p-3 rounded-2xl"><p className="text-lg font-black text-amber-600">{duplicateCount}</p><p className="text-[9px] font-black uppercase text-amber-700">Duplicates</p></div>
+          </div>
+          <div className="max-h-72 overflow-y-auto divide-y divide-stone-100 border border-stone-100 rounded-2xl">
+            {results.map(r => (
+              <div key={r.line} className={`p-3 text-xs ${r.errors.length ? 'bg-red-50/50' : r.duplicateOf ? 'bg-amber-50/50' : ''}`}>
+                <div className="flex justify-between font-bold">
+                  <span className="text-stone-400">Line {r.line}</span>
+                  {r.transaction && (
+                    <span className={r.transaction.type === TransactionType.INCOME ? 'text-green-600' : 'text-red-500'}>
+                      {new Date(r.transaction.date).toLocaleDateString()} • {r.transaction.category} • ₹{r.transaction.amount}
+                    </span>
+                  )}
+                </div>
+                {r.errors.map(err => <p key={err} className="text-red-500 font-medium">{err}</p>)}
+                {r.duplicateOf && <p className="text-amber-600 font-medium">{r.duplicateOf === 'file' ? 'Repeated earlier in this file' : 'Looks like an entry already in the ledger'}</p>}
+              </div>
+            ))}
+          </div>
+          {duplicateCount > 0 && (
+            <label className="flex items-center gap-2 text-xs font-bold text-stone-600">
+              <input type="checkbox" checked={includeDuplicates} onChange={e => setIncludeDuplicates(e.target.checked)} />
+              Import likely duplicates too
+            </label>
+          )}
+          <div className="flex gap-2">
+            <button onClick={() => setStep('map')} className="flex-1 text-stone-400 font-bold text-xs">Back</button>
+            <button onClick={handleImport} disabled={!valid.length} className="flex-1 bg-amber-600 text-white font-bold py-3 rounded-xl text-xs disabled:opacity-30">Import {valid.length} Entries</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
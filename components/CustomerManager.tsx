@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Customer, PaymentMethod, Transaction, UserProfile } from '../types';
+import { PAID_METHODS } from '../constants';
+import { AGING_BUCKETS, buildSettlement, customerDues, customerLedger, duesList, renderCustomerStatementPdf, statementText, whatsappLink } from '../services/customers';
+import { formatDateKey, getBusinessDateKey } from '../services/dateUtils';
+import { downloadPdf } from '../services/download';
+
+interface CustomerManagerProps {
+  customers: Customer[];
+  transactions: Transaction[];
+  user: UserProfile;
+  cutoffHour: number;
+  onAddCustomer: (c: Customer) => void;
+  onUpdateCustomer: (c: Customer) => void;
+  onSettle: (t: Transaction) => boolean;
+}
+
+export const CustomerManager: React.FC<CustomerManagerProps> = ({ customers, transactions, user, cutoffHour, onAddCustomer, onUpdateCustomer, onSettle }) => {
+  const today = getBusinessDateKey(new Date(), cutoffHour);
+  const [showAdd, setShowAdd] = useState(false);
+  const [form, setForm] = useState({ name: '', phone: '', creditLimit: '' });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [settle, setSettle] = useState<{ amount: string; paymentMethod: PaymentMethod; notes: string }>({ amount: '', paymentMethod: 'CASH', notes: '' });
+
+  const dues = duesList(customers, transactions, today, cutoffHour);
+  const totalDue = dues.reduce((sum, d) => sum + d.outstanding, 0);
+  const bucketTotals = AGING_BUCKETS.map(b => ({ bucket: b, amount: dues.reduce((sum, d) => sum + d.buckets[b], 0) }));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+    onAddCustomer({
+      id: `cust-${Date.now()}`,
+      name: form.name.trim(),
+      phone: form.phone.trim(),
+      creditLimit: Number(form.creditLimit) || undefined,
+      createdAt: new Date().toISOString()
+    });
+    setForm({ name: '', phone: '', creditLimit: '' });
+    setShowAdd(false);
+  };
+
+  const selected = customers.find(c => c.id === selectedId);
+
+  if (selected) {
+    const detail = customerDues(selected, transactions, today, cutoffHour);
+    const entries = customerLedger(selected.id, transactions, cutoffHour);
+
+    const handleSettle = (e: React.FormEvent) => {
+      e.preventDefault();
+      const amount = Number(settle.amount);
+      if (!(amount > 0)) return;
+      if (amount > detail.outstanding && !window.confirm(`₹${amount} is more than the ₹${detail.outstanding} owed. Record it anyway (the extra stays as advance credit)?`)) return;
+      if (onSettle(buildSettlement(selected, amount, settle.paymentMethod, settle.notes))) {
+        setSettle({ amount: '', paymentMethod: 'CASH', notes: '' });
+      }
+    };
+
+    return (
+      <div className="space-y-4 animate-in slide-in-from-right-4 duration-300">
+        <button onClick={() => setSelectedId(null)} className="text-xs font-bold text-stone-400 underline px-2">Back</button>
+
+        <div className="bg-white p-5 rounded-3xl border border-stone-200 shadow-sm">
+          <h3 className="text-xl font-bold">{selected.name}</h3>
+          <p className="text-xs text-stone-500">{selected.phone || 'No phone'}</p>
+          <div className="grid grid-cols-2 gap-3 mt-4">
+            <div className="bg-rose-50 p-3 rounded-2xl">
+              <p className="text-[10px] font-bold text-rose-400 uppercase">Outstanding</p>
+              <p className="font-black text-rose-600 text-lg">₹{detail.outstanding.toLocaleString('en-IN')}</p>
+            </div>
+            <div className="bg-stone-50 p-3 rounded-2xl">
+              <p className="text-[10px] font-bold text-stone-400 uppercase">Oldest Unpaid</p>
+              <p className="font-black text-stone-700">{detail.oldestUnpaid ? `${formatDateKey(detail.oldestUnpaid)} (${detail.ageDays}d)` : '—'}</p>
+            </div>
+          </div>
+          <label className="block mt-3 text-[10px] font-black uppercase text-stone-400">
+            Credit limit (₹)
+            <input
+              type="number"
+              value={selected.creditLimit || ''}
+              onChange={e => onUpdateCustomer({ ...selected, creditLimit: Number(e.target.value) || undefined })}
+              placeholder="No limit"
+              className="w-full mt-1 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs text-stone-700"
+            />
+          </label>
+        </div>
+
+        <form onSubmit={handleSettle} className="bg-white p-5 rounded-3xl border border-stone-200 space-y-2">
+          <p className="text-[10px] font-black uppercase text-stone-500 tracking-widest">Record Payment</p>
+          <div className="flex gap-2">
+            <input type="number" value={settle.amount} onChange={e => setSettle({ ...settle, amount: e.target.value })} placeholder="Amount" className="flex-1 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-sm font-bold" />
+            {detail.outstanding > 0 && (
+              <button type="button" onClick={() => setSettle({ ...settle, amount: String(detail.outstanding) })} className="px-3 text-[10px] font-black uppercase text-amber-600">Full</button>
+            )}
+          </div>
+          <div className="grid grid-cols-4 gap-1">
+            {PAID_METHODS.map(pm => (
+              <button
+                key={pm.id}
+                type="button"
+                onClick={() => setSettle({ ...settle, paymentMethod: pm.id as PaymentMethod })}
+                className={`p-2 rounded-lg border text-[10px] font-bold ${settle.paymentMethod === pm.id ? 'border-amber-500 bg-amber-50 text-amber-700' : 'border-stone-200 text-stone-600'}`}
+              >
+                {pm.label}
+              </button>
+            ))}
+          </div>
+          <input value={settle.notes} onChange={e => setSettle({ ...settle, notes: e.target.value })} placeholder="Notes (optional)" className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs" />
+          <button type="submit" className="w-full bg-stone-900 text-white font-bold py-3 rounded-xl text-xs">Save Payment</button>
+        </form>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => downloadPdf(renderCustomerStatementPdf(user, selected, entries), `Statement_${selected.name.replace(/\s+/g, '_')}_${today}.pdf`)}
+            className="bg-stone-900 text-white font-bold py-3 rounded-xl text-xs"
+          >
+            Download PDF
+          </button>
+          <a
+            href={whatsappLink(selected.phone, statementText(user, selected, entries))}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="bg-green-600 text-white font-bold py-3 rounded-xl text-xs text-center"
+          >
+            Share on WhatsApp
+          </a>
+        </div>
+
+        <div className="bg-white rounded-3xl border border-stone-200 divide-y divide-stone-100">
+          {entries.length === 0 && <p className="p-5 text-xs text-stone-400 font-bold">No credit sales yet.</p>}
+          {[...entries].reverse().map(e => (
+            <div key={e.transaction.id} className="p-4 flex items-center justify-between text-xs">
+              <div>
+                <p className="font-bold text-stone-700">{e.charge ? (e.transaction.notes || e.transaction.category) : `Paid • ${e.transaction.paymentMethod}`}</p>
+                <p className="text-[10px] font-bold text-stone-400">{formatDateKey(e.dateKey)}</p>
+              </div>
+              <div className="text-right">
+                <p className={`font-black ${e.charge ? 'text-rose-600' : 'text-green-600'}`}>{e.charge ? `+₹${e.charge}` : `−₹${e.payment}`}</p>
+                <p className="text-[10px] font-bold text-stone-400">Bal ₹{e.balance}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between px-2">
+        <h3 className="text-2xl font-black">Khata</h3>
+        <button onClick={() => setShowAdd(!showAdd)} className="bg-amber-600 text-white p-2 rounded-full shadow-lg">
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><line x1="12" y1="5" x2="12" y2="19"/><line x1="5" y1="12" x2="19" y2="12"/></svg>
+        </button>
+      </div>
+
+      {showAdd && (
+        <form onSubmit={handleAdd} className="bg-white p-6 rounded-[32px] border border-stone-200 space-y-3 animate-in slide-in-from-top-4 duration-300">
+          <input required value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Customer name" className="w-full p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm" />
+          <div className="grid grid-cols-2 gap-2">
+            <input type="tel" value={form.phone} onChange={e => setForm({ ...form, phone: e.target.value })} placeholder="Phone" className="p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm" />
+            <input type="number" value={form.creditLimit} onChange={e => setForm({ ...form, creditLimit: e.target.value })} placeholder="Credit limit (₹)" className="p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm" />
+          </div>
+          <button type="submit" className="w-full bg-stone-900 text-white font-bold py-3 rounded-xl text-sm">Add Customer</button>
+        </form>
+      )}
+
+      <div className="bg-rose-600 text-white p-6 rounded-[32px] shadow-lg">
+        <p className="text-[10px] font-black uppercase tracking-widest opacity-70">To Collect</p>
+        <h3 className="text-3xl font-black mb-3">₹{totalDue.toLocaleString('en-IN')}</h3>
+        <div className="grid grid-cols-4 gap-2 text-center">
+          {bucketTotals.map(b => (
+            <div key={b.bucket} className="bg-white/10 rounded-xl p-2">
+              <p className="text-[9px] font-black opacity-70">{b.bucket}d</p>
+              <p className="text-xs font-black">₹{b.amount.toLocaleString('en-IN')}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[32px] border border-stone-200 divide-y divide-stone-100">
+        {customers.length === 0 && <p className="p-6 text-xs text-stone-400 font-bold">Add regulars who drink on credit, then pick "Credit (Udhaar)" when logging their sales.</p>}
+        {dues.map(d => (
+          <button key={d.customer.id} onClick={() => setSelectedId(d.customer.id)} className="w-full p-5 flex items-center justify-between text-left">
+            <div>
+              <p className="font-black text-stone-800">{d.customer.name}</p>
+              <p className={`text-[10px] font-bold uppercase ${d.ageDays > 30 ? 'text-red-500' : 'text-stone-400'}`}>Oldest {d.ageDays} days</p>
+            </div>
+            <p className="font-black text-rose-600">₹{d.outstanding.toLocaleString('en-IN')}</p>
+          </button>
+        ))}
+        {customers.filter(c => !dues.some(d => d.customer.id === c.id)).map(c => (
+          <button key={c.id} onClick={() => setSelectedId(c.id)} className="w-full p-5 flex items-center justify-between text-left">
+            <p className="font-bold text-stone-500">{c.name}</p>
+            <p className="text-[10px] font-black uppercase text-green-600">Settled</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useState, useMemo } from 'react';
+import { DayClose, Transaction, UpiCheck } from '../types';
+import { DENOMINATIONS, PAYMENT_METHODS } from '../constants';
+import { buildUpiChecks, countDenominations, expectedCash, findDayClose, suggestedOpeningFloat, transactionsForDay } from '../services/cashDrawer';
+import { formatDateKey, getBusinessDateKey } from '../services/dateUtils';
+
+interface DayCloseManagerProps {
+  transactions: Transaction[];
+  dayCloses: DayClose[];
+  outletId: string;
+  cutoffHour: number;
+  onCloseDay: (c: DayClose) => void;
+  onReopenDay: (id: string) => void;
+}
+
+export const DayCloseManager: React.FC<DayCloseManagerProps> = ({ transactions, dayCloses, outletId, cutoffHour, onCloseDay, onReopenDay }) => {
+  const today = getBusinessDateKey(new Date(), cutoffHour);
+  const [showForm, setShowForm] = useState(false);
+  const [date, setDate] = useState(today);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [upiChecks, setUpiChecks] = useState<UpiCheck[]>([]);
+  const [notes, setNotes] = useState('');
+
+  const dayTransactions = useMemo(() => transactionsForDay(transactions, date, cutoffHour), [transactions, date, cutoffHour]);
+  const existing = findDayClose(dayCloses, date);
+  const todayClose = findDayClose(dayCloses, today);
+
+  const float = openingFloat === '' ? suggestedOpeningFloat(dayCloses, date) : Number(openingFloat);
+  const expected = expectedCash(dayTransactions, float);
+  const counted = countDenominations(counts);
+  const discrepancy = counted - expected;
+
+  const openForm = (key: string) => {
+    setDate(key);
+    setOpeningFloat('');
+    setCounts({});
+    setUpiChecks(buildUpiChecks(transactionsForDay(transactions, key, cutoffHour)));
+    setNotes('');
+    setShowForm(true);
+  };
+
+  const handleDateChange = (key: string) => {
+    setDate(key);
+    setUpiChecks(buildUpiChecks(transactionsForDay(transactions, key, cutoffHour)));
+  };
+
+  const methodLabel = (method: string) => PAYMENT_METHODS.find(pm => pm.id === method)?.label || method;
+
+  const updateUpi = (i: number, patch: Partial<UpiCheck>) => {
+    setUpiChecks(prev => prev.map((c, idx) => idx === i ? { ...c, ...patch } : c));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (existing) {
+      alert(`${formatDateKey(date)} is already closed.`);
+      return;
+    }
+    const missing = upiChecks.filter(c => c.expected !== 0 && c.actual === undefined);
+    if (missing.length) {
+      alert(`Enter the total your ${missing.map(c => methodLabel(c.method)).join(', ')} app shows for ${formatDateKey(date)}.`);
+      return;
+    }
+    const checked = upiChecks.map(c => ({ ...c, actual: c.actual ?? 0, matched: (c.actual ?? 0) === c.expected }));
+    const unmatched = checked.filter(c => !c.matched);
+    if (unmatched.length && !window.confirm(`${unmatched.map(c => `${methodLabel(c.method)} differs by ₹${Math.abs(c.actual - c.expected)}`).join('\n')}\nClose the day anyway?`)) return;
+
+    onCloseDay({
+      id: `close-${outletId}-${date}`,
+      date,
+      openingFloat: float,
+      denominations: counts,
+      countedCash: counted,
+      expectedCash: expected,
+      discrepancy,
+      upiChecks: checked,
+      notes,
+      closedAt: new Date().toISOString(),
+      outletId
+    });
+    setShowForm(false);
+  };
+
+  const recentCloses = [...dayCloses].sort((a, b) => b.date.localeCompare(a.date) || b.closedAt.localeCompare(a.closedAt)).slice(0, 5);
+
+  return (
+    <div className="bg-white rounded-[32px] p-6 border border-stone-200">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h4 className="font-black text-stone-800 text-sm uppercase tracking-widest">Cash Drawer</h4>
+          <p className="text-[10px] text-stone-400 font-bold uppercase">
+            {todayClose ? `Today closed • ${todayClose.discrepancy === 0 ? 'Balanced' : `${todayClose.discrepancy < 0 ? 'Short' : 'Excess'} ₹${Math.abs(todayClose.discrepancy)}`}` : 'Today open'}
+          </p>
+        </div>
+        {!showForm && (
+          <button onClick={() => openForm(today)} className="bg-stone-900 text-white text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-full">
+            Close Day
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-4 animate-in slide-in-from-top-4 duration-300">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-[10px] font-bold text-stone-500 uppercase">Business Date</label>
+              <input type="date" value={date} max={today} onChange={e => handleDateChange(e.target.value)} className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg mt-1 outline-none text-sm" />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-stone-500 uppercase">Opening Float (₹)</label>
+              <input type="number" value={openingFloat} onChange={e => setOpeningFloat(e.target.value)} placeholder={float.toString()} className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg mt-1 outline-none text-sm" />
+            </div>
+          </div>
+
+          {existing && <p className="text-xs font-bold text-red-500">This day is already closed. Reopen it below to recount.</p>}
+
+          <div>
+            <p className="text-[10px] font-bold text-stone-500 uppercase mb-2">Drawer Count</p>
+            <div className="grid grid-cols-3 gap-2">
+              {DENOMINATIONS.map(d => (
+                <div key={d} className="flex items-center gap-1 bg-stone-50 border border-stone-200 rounded-lg px-2">
+                  <span className="text-[10px] font-black text-stone-400 w-8">₹{d}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={counts[d] || ''}
+                    onChange={e => setCounts({ ...counts, [d]: Number(e.target.value) })}
+                    className="w-full py-2 bg-transparent outline-none text-sm font-bold text-right"
+                    placeholder="0"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-stone-50 rounded-2xl p-4 space-y-1 text-xs font-bold">
+            <div className="flex justify-between text-stone-500"><span>Expected cash</span><span>₹{expected}</span></div>
+            <div className="flex justify-between text-stone-800"><span>Counted cash</span><span>₹{counted}</span></div>
+            <div className={`flex justify-between pt-1 border-t border-stone-200 ${discrepancy === 0 ? 'text-green-600' : 'text-red-500'}`}>
+              <span>{discrepancy === 0 ? 'Balanced' : discrepancy < 0 ? 'Shortage' : 'Excess'}</span>
+              <span>₹{Math.abs(discrepancy)}</span>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[10px] font-bold text-stone-500 uppercase mb-2">UPI Check</p>
+            <p className="text-[10px] text-stone-400 font-bold mb-2">Enter the total each app shows for the day.</p>
+            <div className="space-y-2">
+              {upiChecks.map((c, i) => (
+                <div key={c.method} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 font-bold text-stone-700">{methodLabel(c.method)}</span>
+                  <span className="text-stone-400">Expected ₹{c.expected}</span>
+                  <input
+                    type="number"
+                    value={c.actual ?? ''}
+                    onChange={e => updateUpi(i, { actual: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    placeholder={c.expected ? 'Enter' : '0'}
+                    className="w-20 p-1 bg-stone-50 border border-stone-200 rounded outline-none text-right font-bold"
+                  />
+                  <span className={`w-14 text-right font-black ${c.actual === undefined ? 'text-stone-300' : c.actual === c.expected ? 'text-green-600' : 'text-red-500'}`}>
+                    {c.actual === undefined ? '—' : c.actual === c.expected ? '✓' : `${c.actual < c.expected ? '−' : '+'}₹${Math.abs(c.actual - c.expected)}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <input type="text" value={notes} onChange={e => setNotes(e.target.value)} placeholder="Notes (e.g. reason for shortage)" className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-sm" />
+
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setShowForm(false)} className="flex-1 text-stone-400 font-bold text-xs">Cancel</button>
+            <button type="submit" disabled={!!existing} className="flex-1 bg-stone-900 text-white font-bold py-3 rounded-xl text-xs disabled:opacity-30">Close {formatDateKey(date)}</button>
+          </div>
+        </form>
+      )}
+
+      {recentCloses.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-stone-100 space-y-2">
+          {recentCloses.map(c => (
+            <div key={c.id} className={`flex items-center justify-between text-xs ${c.reopenedAt ? 'opacity-50' : ''}`}>
+              <span className="font-bold text-stone-700">{c.reopenedAt ? '🔓' : '🔒'} {formatDateKey(c.date)}</span>
+              <span className={`font-black ${c.discrepancy === 0 ? 'text-green-600' : 'text-red-500'}`}>
+                {c.discrepancy === 0 ? 'Balanced' : `${c.discrepancy < 0 ? '−' : '+'}₹${Math.abs(c.discrepancy)}`}
+              </span>
+              {c.reopenedAt ? (
+                <span className="text-[10px] font-black text-stone-400 uppercase tracking-widest">Reopened</span>
+              ) : (
+                <button onClick={() => { if (window.confirm(`Reopen ${formatDateKey(c.date)}? Entries for that day become editable again; this count is kept as a record.`)) onReopenDay(c.id); }} className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Reopen</button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
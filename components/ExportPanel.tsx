@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { StaffMember, Transaction } from '../types';
+import { exportTransactionsCsv, exportWorkbook } from '../services/exporter';
+import { resolvePeriod } from '../services/reportingPeriod';
+import { downloadBlob } from '../services/download';
+
+interface ExportPanelProps {
+  transactions: Transaction[];
+  staff: StaffMember[];
+  cutoffHour: number;
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ transactions, staff, cutoffHour }) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  // Blank dates export everything
+  const range = from || to ? resolvePeriod({ preset: 'CUSTOM', customStart: from || '0000-01-01', customEnd: to || '9999-12-31' }, cutoffHour) : null;
+  const suffix = range ? `${from || 'start'}_to_${to || 'today'}` : 'All';
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200 space-y-4 animate-in slide-in-from-top-4 duration-300">
+      <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest">Export Records</h4>
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <label className="block text-[10px] font-bold text-stone-500 uppercase">From</label>
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} className="w-full p-2 bg-stone-50 border border-stone-200 rounded-xl text-xs font-bold outline-none mt-1" />
+        </div>
+        <div className="flex-1">
+          <label className="block text-[10px] font-bold text-stone-500 uppercase">To</label>
+          <input type="date" value={to} onChange={e => setTo(e.target.value)} className="w-full p-2 bg-stone-50 border border-stone-200 rounded-xl text-xs font-bold outline-none mt-1" />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => downloadBlob(exportTransactionsCsv(transactions, staff, range, cutoffHour), `TeaStall_Records_${suffix}.csv`)}
+          className="bg-stone-100 text-stone-700 font-bold text-xs py-3 rounded-xl"
+        >
+          CSV
+        </button>
+        <button
+          onClick={() => downloadBlob(exportWorkbook(transactions, staff, range, cutoffHour), `TeaStall_Records_${suffix}.xlsx`)}
+          className="bg-green-600 text-white font-bold text-xs py-3 rounded-xl"
+        >
+          Excel (.xlsx)
+        </button>
+      </div>
+      <p className="text-[10px] text-stone-400">The workbook has Transactions, Staff, Daily Summary and Payroll sheets.</p>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { BusinessInsights, INSIGHT_STATUS_LABELS, InsightStatus, MIN_INSIGHT_ENTRIES } from '../services/insights';
+
+interface InsightCardsProps {
+  insights: BusinessInsights | null;
+  loading: boolean;
+  periodLabel: string;
+  entryCount: number; // Entries in the period; advice needs a few to work with
+  onRefresh: () => void;
+}
+
+const STATUS_COLORS: Record<InsightStatus, string> = {
+  HEALTHY: 'bg-green-100 text-green-700',
+  WATCH: 'bg-amber-200 text-amber-800',
+  AT_RISK: 'bg-red-100 text-red-700'
+};
+
+export const InsightCards: React.FC<InsightCardsProps> = ({ insights, loading, periodLabel, entryCount, onRefresh }) => {
+  const tooFew = entryCount < MIN_INSIGHT_ENTRIES;
+
+  return (
+    <div className="bg-gradient-to-br from-amber-50 to-amber-100 p-6 rounded-[32px] border border-amber-200 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-amber-900 font-black text-xs uppercase tracking-widest">AI Advisor</h4>
+        <button onClick={onRefresh} disabled={loading || tooFew} className={`text-[10px] font-bold ${tooFew ? 'text-amber-900/30' : 'text-amber-600'}`}>{loading ? '...' : 'Refresh'}</button>
+      </div>
+
+      {!insights && tooFew ? (
+        <p className="text-amber-900/80 text-sm italic font-medium">
+          Advice needs at least {MIN_INSIGHT_ENTRIES} entries for {periodLabel.toLowerCase()}; {entryCount === 0 ? 'none are' : `only ${entryCount} ${entryCount === 1 ? 'is' : 'are'}`} recorded so far.
+        </p>
+      ) : !insights ? (
+        <p className="text-amber-900/80 text-sm italic font-medium">Tap Refresh for advice on {periodLabel.toLowerCase()}.</p>
+      ) : (
+        <>
+          <div className="flex items-start gap-3">
+            <span className={`shrink-0 px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-wider ${STATUS_COLORS[insights.status]}`}>{INSIGHT_STATUS_LABELS[insights.status]}</span>
+            <p className="text-amber-900/80 text-sm font-medium">{insights.summary}</p>
+          </div>
+
+          {insights.costAlerts.length > 0 && (
+            <div className="bg-white/70 p-4 rounded-2xl space-y-1">
+              <p className="text-[10px] font-black uppercase text-red-600 tracking-widest">Cost Alerts</p>
+              {insights.costAlerts.map((a, i) => <p key={i} className="text-xs font-bold text-stone-700">• {a}</p>)}
+            </div>
+          )}
+
+          {insights.actions.length > 0 && (
+            <div className="bg-white/70 p-4 rounded-2xl space-y-1">
+              <p className="text-[10px] font-black uppercase text-amber-700 tracking-widest">Try This</p>
+              {insights.actions.map((a, i) => <p key={i} className="text-xs font-bold text-stone-700">{i + 1}. {a}</p>)}
+            </div>
+          )}
+
+          {insights.source === 'offline' && <p className="text-[9px] font-bold text-amber-900/50 uppercase tracking-wider">Worked out on this device</p>}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Category, StockCount, StockItem, StockUnit, Transaction, TransactionType } from '../types';
+import { STOCK_UNITS } from '../constants';
+import { createDefaultStockItems, formatQty, stockLedger, stockOnHand } from '../services/inventory';
+import { categoriesFor } from '../services/categories';
+import { formatDateKey, getBusinessDateKey } from '../services/dateUtils';
+
+interface InventoryManagerProps {
+  items: StockItem[];
+  counts: StockCount[];
+  transactions: Transaction[];
+  categories: Category[];
+  cutoffHour: number;
+  onAddItems: (items: StockItem[]) => void;
+  onUpdateItem: (item: StockItem) => void;
+  onSaveCount: (count: StockCount) => void;
+  onDeleteCount: (id: string) => void;
+}
+
+export const InventoryManager: React.FC<InventoryManagerProps> = ({
+  items, counts, transactions, categories, cutoffHour, onAddItems, onUpdateItem, onSaveCount, onDeleteCount
+}) => {
+  const today = getBusinessDateKey(new Date(), cutoffHour);
+  const expenseCategories = categoriesFor(categories, TransactionType.EXPENSE);
+
+  const [showAdd, setShowAdd] = useState(false);
+  const [newItem, setNewItem] = useState({ name: '', unit: 'KG' as StockUnit, categoryId: '', reorderLevel: '', openingStock: '' });
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [count, setCount] = useState({ date: today, quantity: '', wasted: '', notes: '' });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.name.trim() || !newItem.categoryId) return;
+    if (items.some(i => i.categoryId === newItem.categoryId)) {
+      alert("Another stock item already uses that expense category.");
+      return;
+    }
+    onAddItems([{
+      id: `stock-${Date.now()}`,
+      name: newItem.name.trim(),
+      unit: newItem.unit,
+      categoryId: newItem.categoryId,
+      reorderLevel: Number(newItem.reorderLevel) || 0,
+      openingStock: Number(newItem.openingStock) || 0,
+      createdAt: new Date().toISOString()
+    }]);
+    setNewItem({ name: '', unit: 'KG', categoryId: '', reorderLevel: '', openingStock: '' });
+    setShowAdd(false);
+  };
+
+  const openItem = (id: string) => {
+    setOpenId(openId === id ? null : id);
+    setCount({ date: today, quantity: '', wasted: '', notes: '' });
+  };
+
+  const handleCount = (e: React.FormEvent, item: StockItem) => {
+    e.preventDefault();
+    if (count.quantity === '' || Number(count.quantity) < 0) return;
+    const id = `count-${item.id}-${count.date}`;
+    if (counts.some(c => c.id === id) && !window.confirm(`Replace the ${formatDateKey(count.date)} count for ${item.name}?`)) return;
+    onSaveCount({
+      id,
+      itemId: item.id,
+      date: count.date,
+      quantity: Number(count.quantity),
+      wasted: Number(count.wasted) || 0,
+      notes: count.notes || undefined
+    });
+    setCount({ date: today, quantity: '', wasted: '', notes: '' });
+  };
+
+  const suggested = createDefaultStockItems(categories, items);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between px-2">
+        <h3 className="text-2xl font-black">Stock</h3>
+        <button onClick={() => setShowAdd(!showAdd)} className="bg-amber-600 text-white p-2 rounded-full shadow-lg">
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><line x1="12" y1="5" x2="12" y2="19"/><line x1="5" y1="12" x2="19" y2="12"/></svg>
+        </button>
+      </div>
+
+      {suggested.length > 0 && (
+        <button onClick={() => onAddItems(suggested)} className="w-full p-4 border-2 border-dashed border-amber-200 text-amber-700 rounded-[32px] text-xs font-bold">
+          Start tracking {suggested.map(s => s.name).join(', ')}
+        </button>
+      )}
+
+      {showAdd && (
+        <form onSubmit={handleAdd} className="bg-white p-6 rounded-[32px] border border-stone-200 space-y-3 animate-in slide-in-from-top-4 duration-300">
+          <input required value={newItem.name} onChange={e => setNewItem({ ...newItem, name: e.target.value })} placeholder="Item name" className="w-full p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm" />
+          <div className="grid grid-cols-2 gap-2">
+            <select value={newItem.unit} onChange={e => setNewItem({ ...newItem, unit: e.target.value as StockUnit })} className="p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm">
+              {STOCK_UNITS.map(u => <option key={u.id} value={u.id}>{u.label}</option>)}
+            </select>
+            <select required value={newItem.categoryId} onChange={e => setNewItem({ ...newItem, categoryId: e.target.value })} className="p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm">
+              <option value="">Bought under…</option>
+              {expenseCategories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+            <input type="number" step="any" value={newItem.reorderLevel} onChange={e => setNewItem({ ...newItem, reorderLevel: e.target.value })} placeholder="Warn below" className="p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm" />
+            <input type="number" step="any" value={newItem.openingStock} onChange={e => setNewItem({ ...newItem, openingStock: e.target.value })} placeholder="On hand now" className="p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm" />
+          </div>
+          <button type="submit" className="w-full bg-stone-900 text-white font-bold py-3 rounded-xl text-sm">Add Item</button>
+        </form>
+      )}
+
+      {items.length === 0 && !showAdd && (
+        <p className="text-xs text-stone-400 font-bold px-2">Track raw materials by entering the quantity when you log a purchase, then count what is left at closing.</p>
+      )}
+
+      {items.map(item => {
+        const onHand = stockOnHand(item, transactions, counts, cutoffHour);
+        const low = item.reorderLevel > 0 && onHand.quantity <= item.reorderLevel;
+        const ledger = openId === item.id ? stockLedger(item, transactions, counts, cutoffHour).reverse().slice(0, 7) : [];
+        const category = categories.find(c => c.id === item.categoryId);
+
+        return (
+          <div key={item.id} className={`bg-white rounded-[32px] border ${low ? 'border-red-200' : 'border-stone-200'} overflow-hidden`}>
+            <button onClick={() => openItem(item.id)} className="w-full p-5 flex items-center justify-between text-left">
+              <div>
+                <p className="font-black text-stone-800">{item.name}</p>
+                <p className="text-[10px] font-bold text-stone-400 uppercase">
+                  {onHand.countedOn ? `Counted ${formatDateKey(onHand.countedOn)}` : 'Not counted yet'} • {category ? category.name : 'No category'}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className={`text-xl font-black ${low ? 'text-red-500' : 'text-stone-800'}`}>{formatQty(onHand.quantity, item.unit)}</p>
+                {low && <p className="text-[9px] font-black uppercase text-red-500">Low stock</p>}
+              </div>
+            </button>
+
+            {openId === item.id && (
+              <div className="p-5 pt-0 space-y-4 animate-in slide-in-from-top-2 duration-200">
+                <form onSubmit={e => handleCount(e, item)} className="bg-stone-50 p-4 rounded-2xl space-y-2">
+                  <p className="text-[10px] font-black uppercase text-stone-500 tracking-widest">Stock-take</p>
+                  <div className="grid grid-cols-3 gap-2">
+                    <input type="date" value={count.date} max={today} onChange={e => e.target.value && setCount({ ...count, date: e.target.value })} className="col-span-3 p-2 bg-white border border-stone-200 rounded-lg outline-none text-xs font-bold" />
+                    <input type="number" step="any" required value={count.quantity} onChange={e => setCount({ ...count, quantity: e.target.value })} placeholder={`Left (${item.unit})`} className="p-2 bg-white border border-stone-200 rounded-lg outline-none text-xs" />
+                    <input type="number" step="any" value={count.wasted} onChange={e => setCount({ ...count, wasted: e.target.value })} placeholder={`Wasted (${item.unit})`} className="p-2 bg-white border border-stone-200 rounded-lg outline-none text-xs" />
+                    <button type="submit" className="bg-stone-900 text-white font-bold rounded-lg text-xs">Save</button>
+                  </div>
+                  <input value={count.notes} onChange={e => setCount({ ...count, notes: e.target.value })} placeholder="Notes (e.g. milk curdled)" className="w-full p-2 bg-white border border-stone-200 rounded-lg outline-none text-xs" />
+                </form>
+
+                {ledger.length > 0 && (
+                  <table className="w-full text-[10px] font-bold text-right">
+                    <thead className="text-stone-400 uppercase">
+                      <tr><th className="text-left">Day</th><th>Bought</th><th>Left</th><th>Used</th><th>Wasted</th><th /></tr>
+                    </thead>
+                    <tbody className="text-stone-600">
+                      {ledger.map(p => (
+                        <tr key={p.date}>
+                          <td className="text-left py-1">{formatDateKey(p.date)}</td>
+                          <td>{Number(p.purchased.toFixed(2))}</td>
+                          <td>{Number(p.closing.toFixed(2))}</td>
+                          <td className={p.used < 0 ? 'text-red-500' : ''}>{Number(p.consumed.toFixed(2))}</td>
+                          <td className={p.wasted ? 'text-amber-600' : ''}>{Number(p.wasted.toFixed(2))}</td>
+                          <td>
+                            <button onClick={() => window.confirm("Delete this count?") && onDeleteCount(`count-${item.id}-${p.date}`)} className="text-stone-300">✕</button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {ledger.some(p => p.used < 0) && (
+                  <p className="text-[10px] font-bold text-red-500">A count came out higher than expected. A purchase may have been logged without its quantity.</p>
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="text-[10px] font-black uppercase text-stone-400">
+                    Warn below ({item.unit})
+                    <input type="number" step="any" value={item.reorderLevel} onChange={e => onUpdateItem({ ...item, reorderLevel: Number(e.target.value) || 0 })} className="w-full mt-1 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs text-stone-700" />
+                  </label>
+                  <label className="text-[10px] font-black uppercase text-stone-400">
+                    Bought under
+                    <select value={item.categoryId} onChange={e => onUpdateItem({ ...item, categoryId: e.target.value })} className="w-full mt-1 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs text-stone-700">
+                      {!category && <option value={item.categoryId}>—</option>}
+                      {expenseCategories.map(c => <option key={c.id} value={c.id} disabled={items.some(i => i.id !== item.id && i.categoryId === c.id)}>{c.name}</option>)}
+                    </select>
+                  </label>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
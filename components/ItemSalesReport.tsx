@@ -0,0 +1,47 @@
+import React from 'react';
+import { Transaction } from '../types';
+import { itemSales } from '../services/menu';
+
+interface ItemSalesReportProps {
+  transactions: Transaction[];
+  periodLabel: string;
+}
+
+export const ItemSalesReport: React.FC<ItemSalesReportProps> = ({ transactions, periodLabel }) => {
+  const rows = itemSales(transactions);
+  const total = rows.reduce((sum, r) => sum + r.revenue, 0);
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200">
+      <div className="mb-4">
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest">Item-wise Sales</h4>
+        <p className="text-[10px] text-stone-400 font-bold">{periodLabel} • Quick Sale bills only</p>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-xs text-stone-400 font-bold">No bills rung up on the Quick Sale screen for this period.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] font-black uppercase text-stone-400 text-right">
+              <th className="text-left pb-2">Item</th>
+              <th className="pb-2">Qty</th>
+              <th className="pb-2">Sales</th>
+              <th className="pb-2">Share</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-stone-100 font-bold text-right">
+            {rows.map(r => (
+              <tr key={r.menuItemId}>
+                <td className="text-left py-2 text-stone-700">{r.name}</td>
+                <td className="py-2 text-stone-500">{r.quantity}</td>
+                <td className="py-2 text-stone-700">₹{r.revenue.toLocaleString('en-IN')}</td>
+                <td className="py-2 text-stone-400">{total ? Math.round((r.revenue / total) * 100) : 0}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { AuditEntry, Category, LedgerFilter, PaymentMethod, StaffMember, Transaction, TransactionType } from '../types';
+import { PAYMENT_METHODS } from '../constants';
+import { formatDateKey } from '../services/dateUtils';
+import { historyFor } from '../services/audit';
+import { EMPTY_LEDGER_FILTER, LedgerDay, filterLedger, groupByDay, isFiltered } from '../services/ledgerFilter';
+import { TransactionHistory } from './TransactionHistory';
+import { VirtualList } from './VirtualList';
+
+interface LedgerViewProps {
+  transactions: Transaction[];
+  categories: Category[];
+  staff: StaffMember[];
+  auditLog: AuditEntry[];
+  filter: LedgerFilter; // Held by the app so it survives switching views and tabs
+  cutoffHour: number;
+  isLocked: (t: Transaction) => boolean;
+  onEdit: (t: Transaction) => void;
+  onDelete: (id: string) => void;
+  onFilterChange: (filter: LedgerFilter) => void;
+}
+
+type LedgerRow = { kind: 'day'; day: LedgerDay } | { kind: 'entry'; t: Transaction };
+
+const rowKey = (r: LedgerRow) => r.kind === 'day' ? `day-${r.day.dateKey}` : r.t.id;
+const estimateRow = (r: LedgerRow) => r.kind === 'day' ? 56 : 132;
+
+export const LedgerView: React.FC<LedgerViewProps> = ({ transactions, categories, staff, auditLog, filter, cutoffHour, isLocked, onEdit, onDelete, onFilterChange }) => {
+  const [showFilters, setShowFilters] = useState(() => isFiltered({ ...filter, query: '' }));
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const filtered = useMemo(() => filterLedger(transactions, filter, cutoffHour), [transactions, filter, cutoffHour]);
+  const days = useMemo(() => groupByDay(filtered, cutoffHour), [filtered, cutoffHour]);
+  const rows = useMemo(
+    () => days.flatMap(day => [{ kind: 'day', day } as LedgerRow, ...day.entries.map(t => ({ kind: 'entry', t }) as LedgerRow)]),
+    [days]
+  );
+  const totals = days.reduce((acc, d) => ({ sales: acc.sales + d.sales, expenses: acc.expenses + d.expenses }), { sales: 0, expenses: 0 });
+
+  const categoryNames = Array.from(new Set(categories.map(c => c.name)));
+  const update = (patch: Partial<LedgerFilter>) => onFilterChange({ ...filter, ...patch });
+
+  const renderRow = (r: LedgerRow) => {
+    if (r.kind === 'day') {
+      return (
+        <div className="px-2 pt-6 pb-2 flex items-end justify-between">
+          <p className="text-xs font-black text-stone-800 uppercase tracking-widest">{formatDateKey(r.day.dateKey, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}</p>
+          <p className="text-[10px] font-black">
+            <span className="text-green-600">+₹{r.day.sales.toLocaleString('en-IN')}</span>
+            <span className="text-red-500 ml-3">−₹{r.day.expenses.toLocaleString('en-IN')}</span>
+          </p>
+        </div>
+      );
+    }
+    const t = r.t;
+    return (
+      <div className="pb-3">
+        <div className="bg-white rounded-3xl border border-stone-200 p-5">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-4">
+              <span className={`w-12 h-12 rounded-2xl flex items-center justify-center text-xs font-black ${PAYMENT_METHODS.find(pm => pm.id === t.paymentMethod)?.color}`}>{t.paymentMethod.slice(0, 1)}</span>
+              <div>
+                <p className="text-sm font-black text-stone-800">{t.category}</p>
+                <p className="text-[10px] font-bold text-stone-400 uppercase line-clamp-1">
+                  {new Date(t.date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}{t.notes ? ` • ${t.notes}` : ''}
+                </p>
+              </div>
+            </div>
+            <p className={`font-black text-lg ${t.type === TransactionType.INCOME ? 'text-green-600' : 'text-red-500'}`}>₹{t.amount}</p>
+          </div>
+          <div className="flex justify-end gap-6 pt-3 border-t border-stone-50">
+            <button onClick={() => setHistoryId(historyId === t.id ? null : t.id)} className="text-[10px] font-black text-stone-400 uppercase tracking-widest">History</button>
+            {isLocked(t) ? (
+              <span className="text-[10px] font-black text-stone-400 uppercase tracking-widest">🔒 Day Closed</span>
+            ) : (
+              <>
+                <button onClick={() => onEdit(t)} className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Edit</button>
+                <button onClick={() => onDelete(t.id)} className="text-[10px] font-black text-red-500 uppercase tracking-widest">Delete</button>
+              </>
+            )}
+          </div>
+          {historyId === t.id && (
+            <div className="mt-4 p-4 bg-stone-50 rounded-2xl border border-stone-100">
+              <TransactionHistory entries={historyFor(auditLog, t.id)} />
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-white p-4 rounded-[32px] border border-stone-200 space-y-3">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            value={filter.query}
+            onChange={e => update({ query: e.target.value })}
+            placeholder="Search category or notes"
+            className="flex-1 p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm"
+          />
+          <button onClick={() => setShowFilters(!showFilters)} className={`px-4 rounded-2xl text-[10px] font-black uppercase tracking-widest ${showFilters ? 'bg-stone-900 text-white' : 'bg-stone-100 text-stone-600'}`}>
+            Filters
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <label className="text-[10px] font-black uppercase text-stone-400">
+              From
+              <input type="date" value={filter.from || ''} onChange={e => update({ from: e.target.value || undefined })} className="w-full mt-1 p-2 bg-stone-50 border border-stone-200 rounded-xl outline-none text-xs text-stone-700" />
+            </label>
+            <label className="text-[10px] font-black uppercase text-stone-400">
+              To
+              <input type="date" value={filter.to || ''} onChange={e => update({ to: e.target.value || undefined })} className="w-full mt-1 p-2 bg-stone-50 border border-stone-200 rounded-xl outline-none text-xs text-stone-700" />
+            </label>
+            <select value={filter.type || ''} onChange={e => update({ type: (e.target.value || undefined) as TransactionType | undefined })} className="p-2 bg-stone-50 border border-stone-200 rounded-xl outline-none">
+              <option value="">Income & Expense</option>
+              <option value={TransactionType.INCOME}>Income</option>
+              <option value={TransactionType.EXPENSE}>Expense</option>
+            </select>
+            <select value={filter.category || ''} onChange={e => update({ category: e.target.value || undefined })} className="p-2 bg-stone-50 border border-stone-200 rounded-xl outline-none">
+              <option value="">All categories</option>
+              {categoryNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <select value={filter.paymentMethod || ''} onChange={e => update({ paymentMethod: (e.target.value || undefined) as PaymentMethod | undefined })} className="p-2 bg-stone-50 border border-stone-200 rounded-xl outline-none">
+              <option value="">All methods</option>
+              {PAYMENT_METHODS.map(pm => <option key={pm.id} value={pm.id}>{pm.label}</option>)}
+            </select>
+            <select value={filter.staffId || ''} onChange={e => update({ staffId: e.target.value || undefined })} className="p-2 bg-stone-50 border border-stone-200 rounded-xl outline-none">
+              <option value="">Any staff</option>
+              {staff.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+          <p className="text-stone-400">
+            {filtered.length} entries • <span className="text-green-600">₹{totals.sales.toLocaleString('en-IN')}</span> in • <span className="text-red-500">₹{totals.expenses.toLocaleString('en-IN')}</span> out
+          </p>
+          {isFiltered(filter) && <button onClick={() => onFilterChange(EMPTY_LEDGER_FILTER)} className="text-amber-600">Clear</button>}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-xs text-stone-400 font-bold px-2">{transactions.length ? 'No entries match these filters.' : 'No entries yet.'}</p>
+      ) : (
+        <VirtualList items={rows} itemKey={rowKey} estimateHeight={estimateRow} renderItem={renderRow} />
+      )}
+    </div>
+  );
+};
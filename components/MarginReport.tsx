@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { MenuItem, StockItem, Transaction } from '../types';
+import { marginReport, marginTrend } from '../services/recipeCosting';
+import { monthLabel } from '../services/dateUtils';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+
+interface MarginReportProps {
+  menu: MenuItem[];
+  stockItems: StockItem[];
+  transactions: Transaction[];
+  cutoffHour: number;
+}
+
+export const MarginReport: React.FC<MarginReportProps> = ({ menu, stockItems, transactions, cutoffHour }) => {
+  const rows = marginReport(menu, stockItems, transactions, cutoffHour);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = menu.find(m => m.id === (selectedId || rows[0]?.menuItemId));
+  const trend = selected
+    ? marginTrend(selected, stockItems, transactions, 6, cutoffHour).map(p => ({
+        ...p,
+        month: monthLabel(p.monthKey).slice(0, 3),
+        cost: Number(p.cost.toFixed(2)),
+        margin: Number(p.margin.toFixed(2))
+      }))
+    : [];
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200 space-y-4">
+      <div>
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest">Cost & Margin per Item</h4>
+        <p className="text-[10px] text-stone-400 font-bold">Priced at the latest purchase rate of each ingredient</p>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-xs text-stone-400 font-bold">Add recipes to menu items under Settings → Menu to see their cost.</p>
+      ) : (
+        <>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] font-black uppercase text-stone-400 text-right">
+                <th className="text-left pb-2">Item</th>
+                <th className="pb-2">Price</th>
+                <th className="pb-2">Cost</th>
+                <th className="pb-2">Margin</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-stone-100 font-bold text-right">
+              {rows.map(r => (
+                <tr key={r.menuItemId} onClick={() => setSelectedId(r.menuItemId)} className={`cursor-pointer ${selected?.id === r.menuItemId ? 'bg-amber-50' : ''}`}>
+                  <td className="text-left py-2 text-stone-700">
+                    {r.name}
+                    {r.unpriced.length > 0 && <span className="text-amber-600" title={`No price for ${r.unpriced.join(', ')}`}> *</span>}
+                  </td>
+                  <td className="py-2 text-stone-500">₹{r.price}</td>
+                  <td className="py-2 text-red-500">₹{r.cost.toFixed(2)}</td>
+                  <td className={`py-2 ${r.margin < 0 ? 'text-red-500' : 'text-green-600'}`}>₹{r.margin.toFixed(2)} <span className="text-stone-400">({r.marginPercent}%)</span></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.some(r => r.unpriced.length) && (
+            <p className="text-[10px] font-bold text-amber-600">* Some ingredients have no purchase with a quantity yet, so the cost is understated.</p>
+          )}
+
+          {selected && (
+            <div>
+              <p className="text-[10px] font-black uppercase text-stone-400 tracking-widest mb-2 text-center">{selected.name}: last 6 months</p>
+              <div className="h-48 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trend}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f5f5f5" />
+                    <XAxis dataKey="month" fontSize={9} axisLine={false} tickLine={false} fontWeight="bold" />
+                    <YAxis fontSize={9} axisLine={false} tickLine={false} fontWeight="bold" />
+                    <Tooltip contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+                    <Line type="monotone" dataKey="cost" stroke="#ef4444" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="margin" stroke="#10b981" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
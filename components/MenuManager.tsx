@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Category, MenuItem, StockItem, Transaction, TransactionType } from '../types';
+import { categoriesFor } from '../services/categories';
+import { nextMenuOrder } from '../services/menu';
+import { RecipeEditor } from './RecipeEditor';
+
+interface MenuManagerProps {
+  menu: MenuItem[];
+  categories: Category[];
+  stockItems: StockItem[];
+  transactions: Transaction[];
+  onChange: (menu: MenuItem[]) => void;
+}
+
+export const MenuManager: React.FC<MenuManagerProps> = ({ menu, categories, stockItems, transactions, onChange }) => {
+  const income = categoriesFor(categories, TransactionType.INCOME);
+  const [name, setName] = useState('');
+  const [price, setPrice] = useState('');
+  const [categoryId, setCategoryId] = useState(income[0]?.id || '');
+  const [recipeId, setRecipeId] = useState<string | null>(null);
+
+  const sorted = [...menu].sort((a, b) => a.order - b.order);
+  const update = (id: string, patch: Partial<MenuItem>) => onChange(menu.map(m => m.id === id ? { ...m, ...patch } : m));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !(Number(price) > 0) || !categoryId) return;
+    if (menu.some(m => !m.archived && m.name.toLowerCase() === name.trim().toLowerCase())) {
+      alert(`"${name.trim()}" is already on the menu.`);
+      return;
+    }
+    onChange([...menu, { id: `menu-${Date.now()}`, name: name.trim(), price: Number(price), categoryId, order: nextMenuOrder(menu) }]);
+    setName('');
+    setPrice('');
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200 space-y-4">
+      <div>
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest mb-2">Menu</h4>
+        <p className="text-xs text-stone-500 font-medium">Items shown on the Quick Sale screen. Price changes apply to new bills only.</p>
+      </div>
+
+      {sorted.length > 0 && (
+        <div className="divide-y divide-stone-100 border border-stone-100 rounded-2xl">
+          {sorted.map(m => (
+            <div key={m.id} className={`p-3 space-y-2 ${m.archived ? 'bg-stone-50 opacity-60' : ''}`}>
+              <div className="flex items-center gap-2">
+                <button onClick={() => setRecipeId(recipeId === m.id ? null : m.id)} className="flex-1 text-left">
+                  <p className="text-sm font-bold text-stone-800">{m.name}</p>
+                  <p className="text-[9px] font-black uppercase text-amber-600">{m.recipe?.length ? 'Recipe ✓' : 'Add recipe'}</p>
+                </button>
+                <select
+                  value={m.categoryId}
+                  onChange={e => update(m.id, { categoryId: e.target.value })}
+                  className="w-24 p-1 bg-stone-50 border border-stone-200 rounded-lg outline-none text-[10px]"
+                >
+                  {!income.some(c => c.id === m.categoryId) && <option value={m.categoryId}>—</option>}
+                  {income.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+                <input
+                  type="number"
+                  value={m.price}
+                  onChange={e => update(m.id, { price: Number(e.target.value) || 0 })}
+                  className="w-16 p-1 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs font-bold text-right"
+                />
+                <button onClick={() => update(m.id, { archived: !m.archived || undefined })} className={`text-[10px] font-black uppercase ${m.archived ? 'text-green-600' : 'text-red-500'}`}>
+                  {m.archived ? 'Restore' : 'Hide'}
+                </button>
+              </div>
+              {recipeId === m.id && (
+                <RecipeEditor item={m} stockItems={stockItems} transactions={transactions} onChange={recipe => update(m.id, { recipe })} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <div className="flex gap-2">
+          <input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Masala Chai" className="flex-1 p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm" />
+          <input type="number" value={price} onChange={e => setPrice(e.target.value)} placeholder="₹" className="w-20 p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm" />
+        </div>
+        <div className="flex gap-2">
+          <select value={categoryId} onChange={e => setCategoryId(e.target.value)} className="flex-1 p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm">
+            {income.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <button type="submit" className="bg-stone-900 text-white font-black px-4 rounded-2xl text-[10px] uppercase tracking-widest">Add</button>
+        </div>
+      </form>
+    </div>
+  );
+};
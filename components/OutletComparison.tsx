@@ -0,0 +1,67 @@
+import React from 'react';
+import { DayClose, Outlet, StaffMember, Transaction, UserProfile } from '../types';
+import { PeriodRange } from '../services/reportingPeriod';
+import { outletSummaries } from '../services/outlets';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+
+interface OutletComparisonProps {
+  outlets: Outlet[];
+  user: UserProfile;
+  transactions: Transaction[];
+  staff: StaffMember[];
+  dayCloses: DayClose[];
+  range: PeriodRange;
+}
+
+export const OutletComparison: React.FC<OutletComparisonProps> = ({ outlets, user, transactions, staff, dayCloses, range }) => {
+  const rows = outletSummaries(outlets, user, transactions, staff, dayCloses, range);
+  const total = rows.reduce((acc, r) => ({ sales: acc.sales + r.sales, expenses: acc.expenses + r.expenses, profit: acc.profit + r.profit }), { sales: 0, expenses: 0, profit: 0 });
+  const chartData = rows.map(r => ({ name: r.outlet.name, sales: r.sales, expenses: r.expenses, profit: r.profit }));
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200 space-y-4">
+      <div>
+        <h4 className="text-[10px] font-black text-stone-400 uppercase tracking-widest">All Outlets</h4>
+        <p className="text-xs font-bold text-stone-500">{range.label} • ₹{total.sales.toLocaleString('en-IN')} sales • ₹{total.profit.toLocaleString('en-IN')} profit</p>
+      </div>
+
+      <div className="h-48 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f5f5f5" />
+            <XAxis dataKey="name" fontSize={9} axisLine={false} tickLine={false} fontWeight="bold" />
+            <YAxis fontSize={9} axisLine={false} tickLine={false} fontWeight="bold" />
+            <Tooltip contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+            <Legend wrapperStyle={{ fontSize: 10, fontWeight: 'bold' }} />
+            <Bar dataKey="sales" fill="#10b981" radius={[6, 6, 0, 0]} barSize={12} />
+            <Bar dataKey="expenses" fill="#ef4444" radius={[6, 6, 0, 0]} barSize={12} />
+            <Bar dataKey="profit" fill="#F59E0B" radius={[6, 6, 0, 0]} barSize={12} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] font-black uppercase text-stone-400">
+              <th className="text-left py-2"></th>
+              {rows.map(r => <th key={r.outlet.id} className="text-right py-2 px-1">{r.outlet.name}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-stone-100 font-bold text-stone-700">
+            <tr><td className="py-2 text-stone-400">Sales</td>{rows.map(r => <td key={r.outlet.id} className="text-right text-green-600">₹{r.sales.toLocaleString('en-IN')}</td>)}</tr>
+            <tr><td className="py-2 text-stone-400">Expenses</td>{rows.map(r => <td key={r.outlet.id} className="text-right text-red-500">₹{r.expenses.toLocaleString('en-IN')}</td>)}</tr>
+            <tr><td className="py-2 text-stone-400">Profit</td>{rows.map(r => <td key={r.outlet.id} className="text-right font-black">₹{r.profit.toLocaleString('en-IN')}</td>)}</tr>
+            <tr><td className="py-2 text-stone-400">Bills</td>{rows.map(r => <td key={r.outlet.id} className="text-right">{r.bills}</td>)}</tr>
+            <tr><td className="py-2 text-stone-400">Avg Bill</td>{rows.map(r => <td key={r.outlet.id} className="text-right">₹{r.averageBill}</td>)}</tr>
+            <tr><td className="py-2 text-stone-400">Staff</td>{rows.map(r => <td key={r.outlet.id} className="text-right">{r.staffCount}</td>)}</tr>
+            <tr>
+              <td className="py-2 text-stone-400">Drawer +/−</td>
+              {rows.map(r => <td key={r.outlet.id} className={`text-right ${r.drawerDifference < 0 ? 'text-red-500' : ''}`}>₹{r.drawerDifference}</td>)}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Outlet } from '../types';
+
+interface OutletManagerProps {
+  outlets: Outlet[];
+  activeOutletId: string;
+  onAdd: (o: Outlet) => void;
+  onUpdate: (o: Outlet) => void;
+  onSwitch: (id: string) => void;
+}
+
+export const OutletManager: React.FC<OutletManagerProps> = ({ outlets, activeOutletId, onAdd, onUpdate, onSwitch }) => {
+  const [form, setForm] = useState({ name: '', address: '' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [edit, setEdit] = useState({ name: '', address: '' });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+    const active = outlets.find(o => o.id === activeOutletId);
+    onAdd({
+      id: `outlet-${Date.now()}`,
+      name: form.name.trim(),
+      address: form.address.trim(),
+      businessDayCutoffHour: active?.businessDayCutoffHour,
+      createdAt: new Date().toISOString()
+    });
+    setForm({ name: '', address: '' });
+  };
+
+  const saveEdit = (o: Outlet) => {
+    if (!edit.name.trim()) return;
+    onUpdate({ ...o, name: edit.name.trim(), address: edit.address.trim() });
+    setEditingId(null);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200 space-y-4">
+      <div>
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest mb-2">Outlets</h4>
+        <p className="text-xs text-stone-500 font-medium">Each stall keeps its own sales, staff and cash drawer. Menu, categories, stock and khata are shared.</p>
+      </div>
+
+      <div className="divide-y divide-stone-100 border border-stone-100 rounded-2xl">
+        {outlets.map(o => (
+          <div key={o.id} className="p-3">
+            {editingId === o.id ? (
+              <div className="space-y-2">
+                <input value={edit.name} onChange={e => setEdit({ ...edit, name: e.target.value })} className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs font-bold" />
+                <input value={edit.address} onChange={e => setEdit({ ...edit, address: e.target.value })} placeholder="Address" className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs" />
+                <div className="flex gap-2">
+                  <button onClick={() => saveEdit(o)} className="bg-stone-900 text-white font-bold px-3 py-2 rounded-lg text-xs">Save</button>
+                  <button onClick={() => setEditingId(null)} className="text-stone-400 font-bold text-xs">Cancel</button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-bold text-stone-800">
+                    {o.name}
+                    {o.id === activeOutletId && <span className="ml-2 text-[9px] font-black uppercase text-amber-600">Current</span>}
+                  </p>
+                  <p className="text-[10px] text-stone-400 font-bold line-clamp-1">{o.address || 'No address'}</p>
+                </div>
+                <div className="flex gap-2 text-[10px] font-black uppercase">
+                  <button onClick={() => { setEditingId(o.id); setEdit({ name: o.name, address: o.address }); }} className="text-stone-500">Edit</button>
+                  {o.id !== activeOutletId && <button onClick={() => onSwitch(o.id)} className="text-amber-600">Switch</button>}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="New outlet name" className="w-full p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm" />
+        <input value={form.address} onChange={e => setForm({ ...form, address: e.target.value })} placeholder="Address" className="w-full p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm" />
+        <button type="submit" className="w-full bg-stone-900 text-white font-black py-3 rounded-2xl text-[10px] uppercase tracking-widest">Add Outlet</button>
+      </form>
+    </div>
+  );
+};
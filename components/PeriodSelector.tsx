@@ -0,0 +1,45 @@
+import React from 'react';
+import { ReportingPeriod } from '../types';
+import { PERIOD_PRESETS, PeriodRange } from '../services/reportingPeriod';
+
+interface PeriodSelectorProps {
+  period: ReportingPeriod;
+  range: PeriodRange;
+  onChange: (p: ReportingPeriod) => void;
+}
+
+export const PeriodSelector: React.FC<PeriodSelectorProps> = ({ period, range, onChange }) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1 bg-white p-1 rounded-2xl border border-stone-200">
+        {PERIOD_PRESETS.map(p => (
+          <button
+            key={p.id}
+            onClick={() => onChange(p.id === 'CUSTOM'
+              ? { preset: 'CUSTOM', customStart: period.customStart || range.startKey, customEnd: period.customEnd || range.endKey }
+              : { ...period, preset: p.id })}
+            className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-wider transition-all ${period.preset === p.id ? 'bg-stone-900 text-white' : 'text-stone-400'}`}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+      {period.preset === 'CUSTOM' && (
+        <div className="flex gap-2 animate-in slide-in-from-top-2 duration-200">
+          <input
+            type="date"
+            value={period.customStart || ''}
+            onChange={e => onChange({ ...period, customStart: e.target.value })}
+            className="flex-1 p-2 bg-white border border-stone-200 rounded-xl text-xs font-bold outline-none"
+          />
+          <input
+            type="date"
+            value={period.customEnd || ''}
+            onChange={e => onChange({ ...period, customEnd: e.target.value })}
+            className="flex-1 p-2 bg-white border border-stone-200 rounded-xl text-xs font-bold outline-none"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
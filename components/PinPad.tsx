@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+
+interface PinPadProps {
+  title: string;
+  message?: string;
+  onSubmit: (pin: string) => Promise<boolean>;
+  onCancel?: () => void;
+  onCashier?: () => void;
+  lockedUntil?: number; // Epoch ms after too many wrong PINs
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'C', '0', '⌫'];
+
+// Full-screen keypad used both for the idle lock screen and for owner-only actions
+export const PinPad: React.FC<PinPadProps> = ({ title, message, onSubmit, onCancel, onCashier, lockedUntil }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const waitSeconds = lockedUntil && lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+
+  // Tick the lockout countdown down to zero
+  useEffect(() => {
+    if (!lockedUntil || lockedUntil <= Date.now()) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) window.clearInterval(timer);
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [lockedUntil]);
+
+  const press = (key: string) => {
+    setError('');
+    if (key === 'C') setPin('');
+    else if (key === '⌫') setPin(pin.slice(0, -1));
+    else if (pin.length < 6) setPin(pin + key);
+  };
+
+  const submit = async () => {
+    if (pin.length < 4 || checking || waitSeconds) return;
+    setChecking(true);
+    const ok = await onSubmit(pin);
+    setChecking(false);
+    if (!ok) {
+      setError('Wrong PIN');
+      setPin('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-stone-50 flex flex-col justify-center p-6 page-transition">
+      <div className="max-w-xs mx-auto w-full space-y-6 text-center">
+        <div>
+          <p className="text-3xl mb-2">🔒</p>
+          <h2 className="text-xl font-black text-stone-900">{title}</h2>
+          {message && <p className="text-xs font-bold text-stone-400 mt-1">{message}</p>}
+        </div>
+
+        <div className="flex justify-center gap-3 h-4">
+          {Array.from({ length: Math.max(4, pin.length) }, (_, i) => (
+            <span key={i} className={`w-3 h-3 rounded-full ${i < pin.length ? 'bg-stone-900' : 'bg-stone-200'}`}></span>
+          ))}
+        </div>
+        <p className="text-xs font-black text-red-500 h-4">{waitSeconds ? `Too many wrong PINs. Try again in ${waitSeconds}s` : error}</p>
+
+        <div className="grid grid-cols-3 gap-3">
+          {KEYS.map(k => (
+            <button key={k} onClick={() => press(k)} className="bg-white border border-stone-200 rounded-2xl py-4 text-lg font-black text-stone-800 active:bg-stone-100">
+              {k}
+            </button>
+          ))}
+        </div>
+
+        <button onClick={submit} disabled={pin.length < 4 || checking || !!waitSeconds} className="w-full bg-stone-900 text-white font-black py-4 rounded-2xl disabled:opacity-40">
+          {checking ? 'Checking...' : 'Unlock'}
+        </button>
+        {onCashier && (
+          <button onClick={onCashier} className="w-full border-2 border-amber-200 text-amber-700 font-black py-3 rounded-2xl text-[10px] uppercase tracking-widest">
+            Continue as Cashier
+          </button>
+        )}
+        {onCancel && <button onClick={onCancel} className="w-full text-stone-400 font-bold text-xs">Cancel</button>}
+      </div>
+    </div>
+  );
+};
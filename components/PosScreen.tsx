@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Category, Customer, LineItem, MenuItem, PaymentMethod, Transaction } from '../types';
+import { PAYMENT_METHODS } from '../constants';
+import { activeMenu, addToBill, billTotal, buildSale } from '../services/menu';
+
+interface PosScreenProps {
+  menu: MenuItem[];
+  categories: Category[];
+  customers: Customer[];
+  onSale: (transaction: Transaction) => boolean;
+  onClose: () => void;
+}
+
+export const PosScreen: React.FC<PosScreenProps> = ({ menu, categories, customers, onSale, onClose }) => {
+  const [lines, setLines] = useState<LineItem[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('CASH');
+  const [customerId, setCustomerId] = useState('');
+  const items = activeMenu(menu);
+  const total = billTotal(lines);
+
+  const handleSave = () => {
+    if (!lines.length) return;
+    if (paymentMethod === 'CREDIT' && !customerId) {
+      alert("Pick the customer this bill is on credit to.");
+      return;
+    }
+    if (onSale(buildSale(lines, paymentMethod, menu, categories, customerId))) {
+      setLines([]);
+      setPaymentMethod('CASH');
+      setCustomerId('');
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-amber-500 ring-2 ring-amber-100 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <span className="w-2 h-6 rounded-full bg-amber-500"></span>
+          Quick Sale
+        </h3>
+        <button type="button" onClick={onClose} className="text-xs font-bold text-stone-400 hover:text-stone-600 underline">Manual Entry</button>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-xs text-stone-400 font-bold">No menu items yet. Add your menu under Settings to start tapping sales.</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-2">
+          {items.map(m => {
+            const inBill = lines.find(l => l.menuItemId === m.id)?.quantity;
+            return (
+              <button
+                key={m.id}
+                onClick={() => setLines(addToBill(lines, m))}
+                className={`relative p-3 rounded-xl border text-left transition-all active:scale-95 ${inBill ? 'border-amber-500 bg-amber-50' : 'border-stone-200'}`}
+              >
+                <p className="text-xs font-bold text-stone-800 leading-tight">{m.name}</p>
+                <p className="text-[10px] font-black text-stone-400">₹{m.price}</p>
+                {inBill && <span className="absolute -top-2 -right-2 w-6 h-6 bg-amber-600 text-white rounded-full text-[10px] font-black flex items-center justify-center">{inBill}</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {lines.length > 0 && (
+        <div className="bg-stone-50 rounded-xl p-3 space-y-2">
+          {lines.map(l => {
+            const item = menu.find(m => m.id === l.menuItemId)!;
+            return (
+              <div key={l.menuItemId} className="flex items-center justify-between text-sm">
+                <span className="flex-1 font-bold text-stone-700">{l.name}</span>
+                <div className="flex items-center gap-2">
+                  <button onClick={() => setLines(addToBill(lines, item, -1))} className="w-7 h-7 rounded-full bg-white border border-stone-200 font-black">−</button>
+                  <span className="w-5 text-center font-black">{l.quantity}</span>
+                  <button onClick={() => setLines(addToBill(lines, item))} className="w-7 h-7 rounded-full bg-white border border-stone-200 font-black">+</button>
+                </div>
+                <span className="w-16 text-right font-bold">₹{l.price * l.quantity}</span>
+              </div>
+            );
+          })}
+          <div className="flex justify-between pt-2 border-t border-stone-200 font-black">
+            <span>Total</span>
+            <span className="text-green-600">₹{total}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        {PAYMENT_METHODS.map(pm => (
+          <button
+            key={pm.id}
+            type="button"
+            onClick={() => setPaymentMethod(pm.id as PaymentMethod)}
+            className={`p-2 rounded-lg border text-sm transition-all ${paymentMethod === pm.id ? 'border-amber-500 bg-amber-50 text-amber-700' : 'border-stone-200 text-stone-600'}`}
+          >
+            {pm.label}
+          </button>
+        ))}
+      </div>
+      {paymentMethod === 'CREDIT' && (
+        <select value={customerId} onChange={e => setCustomerId(e.target.value)} className="w-full p-3 bg-rose-50 border border-rose-200 rounded-xl outline-none text-sm">
+          <option value="">Customer…</option>
+          {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+      )}
+
+      <div className="flex gap-2">
+        {lines.length > 0 && <button onClick={() => setLines([])} className="px-4 text-stone-400 font-bold text-xs">Clear</button>}
+        <button
+          onClick={handleSave}
+          disabled={!lines.length}
+          className="flex-1 text-white font-bold py-4 rounded-xl shadow-lg bg-amber-600 hover:bg-amber-700 shadow-amber-200 disabled:opacity-30"
+        >
+          {lines.length ? `Save Bill • ₹${total}` : 'Tap items to start a bill'}
+        </button>
+      </div>
+    </div>
+  );
+};
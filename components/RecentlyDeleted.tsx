@@ -0,0 +1,34 @@
+import React from 'react';
+import { AuditEntry, TransactionType } from '../types';
+import { RECENTLY_DELETED_DAYS } from '../services/audit';
+
+interface RecentlyDeletedProps {
+  entries: AuditEntry[];
+  onRestore: (e: AuditEntry) => void;
+}
+
+export const RecentlyDeleted: React.FC<RecentlyDeletedProps> = ({ entries, onRestore }) => {
+  return (
+    <div className="bg-white rounded-[40px] border border-stone-200 overflow-hidden divide-y divide-stone-100">
+      <p className="p-6 text-xs text-stone-500 font-medium">Deleted entries stay here for {RECENTLY_DELETED_DAYS} days. The change log keeps them for good.</p>
+      {entries.length === 0 && <p className="p-6 text-xs text-stone-400 font-bold">Nothing deleted recently.</p>}
+      {entries.map(e => {
+        const t = e.before!;
+        return (
+          <div key={e.id} className="p-6 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-black text-stone-800">{t.category}</p>
+              <p className="text-[10px] font-bold text-stone-400 uppercase">
+                {new Date(t.date).toLocaleDateString()} • deleted {new Date(e.at).toLocaleDateString()} by {e.by.toLowerCase()}
+              </p>
+            </div>
+            <div className="flex items-center gap-4">
+              <p className={`font-black text-lg ${t.type === TransactionType.INCOME ? 'text-green-600' : 'text-red-500'}`}>₹{t.amount}</p>
+              <button onClick={() => onRestore(e)} className="text-[10px] font-black text-blue-600 uppercase tracking-widest">Restore</button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
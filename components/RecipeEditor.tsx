@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { MenuItem, RecipeIngredient, StockItem, Transaction } from '../types';
+import { STOCK_UNITS } from '../constants';
+import { costMenuItem } from '../services/recipeCosting';
+
+interface RecipeEditorProps {
+  item: MenuItem;
+  stockItems: StockItem[];
+  transactions: Transaction[];
+  onChange: (recipe: RecipeIngredient[]) => void;
+}
+
+const unitOf = (stock?: StockItem) => STOCK_UNITS.find(u => u.id === stock?.unit) || STOCK_UNITS[2];
+
+export const RecipeEditor: React.FC<RecipeEditorProps> = ({ item, stockItems, transactions, onChange }) => {
+  const recipe = item.recipe || [];
+  const unused = stockItems.filter(s => !recipe.some(r => r.stockItemId === s.id));
+  const [addId, setAddId] = useState('');
+  const cost = costMenuItem(item, stockItems, transactions);
+
+  const setQuantity = (stockItemId: string, entered: number) => {
+    const factor = unitOf(stockItems.find(s => s.id === stockItemId)).recipeFactor;
+    onChange(recipe.map(r => r.stockItemId === stockItemId ? { ...r, quantity: entered / factor } : r));
+  };
+
+  if (!stockItems.length) {
+    return <p className="text-[10px] font-bold text-stone-400">Add raw materials on the Stock tab to build a recipe.</p>;
+  }
+
+  return (
+    <div className="bg-stone-50 rounded-xl p-3 space-y-2 animate-in slide-in-from-top-2 duration-200">
+      <p className="text-[10px] font-black uppercase text-stone-500 tracking-widest">Recipe per {item.name}</p>
+      {cost.lines.map(l => {
+        const unit = unitOf(stockItems.find(s => s.id === l.stockItemId));
+        return (
+          <div key={l.stockItemId} className="flex items-center gap-2 text-xs">
+            <span className="flex-1 font-bold text-stone-700">{l.name}</span>
+            <input
+              type="number"
+              step="any"
+              value={Number((l.quantity * unit.recipeFactor).toFixed(4))}
+              onChange={e => setQuantity(l.stockItemId, Number(e.target.value) || 0)}
+              className="w-16 p-1 bg-white border border-stone-200 rounded-lg outline-none text-right font-bold"
+            />
+            <span className="w-6 text-stone-400">{unit.recipeUnit}</span>
+            <span className={`w-14 text-right font-bold ${l.rate ? 'text-stone-600' : 'text-amber-600'}`}>{l.rate ? `₹${l.cost.toFixed(2)}` : 'No price'}</span>
+            <button onClick={() => onChange(recipe.filter(r => r.stockItemId !== l.stockItemId))} className="text-stone-300">✕</button>
+          </div>
+        );
+      })}
+      {unused.length > 0 && (
+        <div className="flex gap-2">
+          <select value={addId} onChange={e => setAddId(e.target.value)} className="flex-1 p-1 bg-white border border-stone-200 rounded-lg outline-none text-xs">
+            <option value="">Add ingredient…</option>
+            {unused.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          <button
+            onClick={() => { if (addId) { onChange([...recipe, { stockItemId: addId, quantity: 0 }]); setAddId(''); } }}
+            disabled={!addId}
+            className="bg-stone-900 text-white font-bold px-3 rounded-lg text-xs disabled:opacity-30"
+          >
+            Add
+          </button>
+        </div>
+      )}
+      {recipe.length > 0 && (
+        <p className="text-[10px] font-black text-stone-500 pt-1">
+          Cost ₹{cost.cost.toFixed(2)} • Margin ₹{cost.margin.toFixed(2)} ({cost.marginPercent}%)
+        </p>
+      )}
+      {cost.unpriced.length > 0 && (
+        <p className="text-[10px] font-bold text-amber-600">Log a purchase with quantity for {cost.unpriced.join(', ')} to price it.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Category, PaymentMethod, RecurrenceRule, RecurringExpense, TransactionType } from '../types';
+import { PAID_METHODS, RECURRENCE_RULES } from '../constants';
+import { categoriesFor } from '../services/categories';
+import { formatDateKey } from '../services/dateUtils';
+import { nextDueDate, setSchedulePaused } from '../services/recurring';
+
+interface RecurringManagerProps {
+  schedules: RecurringExpense[];
+  categories: Category[];
+  todayKey: string;
+  onChange: (schedules: RecurringExpense[]) => void;
+}
+
+export const RecurringManager: React.FC<RecurringManagerProps> = ({ schedules, categories, todayKey, onChange }) => {
+  const expenseCategories = categoriesFor(categories, TransactionType.EXPENSE).filter(c => !c.protected);
+  const [form, setForm] = useState<{ name: string; amount: string; category: string; paymentMethod: PaymentMethod; rule: RecurrenceRule; startDate: string }>({
+    name: '',
+    amount: '',
+    category: '',
+    paymentMethod: 'CASH',
+    rule: 'MONTHLY',
+    startDate: todayKey
+  });
+
+  const category = form.category || expenseCategories[0]?.name || '';
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(form.amount);
+    if (!form.name.trim() || !(amount > 0) || !category) return;
+    if (form.startDate < todayKey && !window.confirm(`This will also post every ${form.rule.toLowerCase()} entry due since ${formatDateKey(form.startDate)}. Continue?`)) return;
+    onChange([...schedules, {
+      id: `sched-${Date.now()}`,
+      name: form.name.trim(),
+      amount,
+      category,
+      paymentMethod: form.paymentMethod,
+      rule: form.rule,
+      startDate: form.startDate,
+      createdAt: new Date().toISOString()
+    }]);
+    setForm({ ...form, name: '', amount: '' });
+  };
+
+  const update = (s: RecurringExpense) => onChange(schedules.map(x => x.id === s.id ? s : x));
+
+  const remove = (s: RecurringExpense) => {
+    if (!window.confirm(`Stop "${s.name}"? Entries already posted stay in the ledger.`)) return;
+    onChange(schedules.filter(x => x.id !== s.id));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200 space-y-4">
+      <div>
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest mb-2">Recurring Expenses</h4>
+        <p className="text-xs text-stone-500 font-medium">Rent, gas and bills are posted automatically when they fall due, including any missed while the app was closed. New entries wait on the dashboard for you to confirm.</p>
+      </div>
+
+      {schedules.length > 0 && (
+        <div className="divide-y divide-stone-100 border border-stone-100 rounded-2xl">
+          {schedules.map(s => (
+            <div key={s.id} className={`p-3 space-y-2 ${s.paused ? 'bg-stone-50' : ''}`}>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className={`text-sm font-bold ${s.paused ? 'text-stone-400' : 'text-stone-800'}`}>{s.name}</p>
+                  <p className="text-[10px] text-stone-400 font-bold">
+                    {s.category} • {RECURRENCE_RULES.find(r => r.id === s.rule)?.label} • {s.paused ? 'Paused' : `Next ${formatDateKey(nextDueDate(s, s.lastPostedDate))}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="text-xs font-black text-stone-500">₹</span>
+                  <input
+                    type="number"
+                    value={s.amount}
+                    onChange={e => update({ ...s, amount: Number(e.target.value) || 0 })}
+                    className="w-20 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs font-bold text-right"
+                  />
+                </div>
+              </div>
+              <div className="flex gap-3 text-[10px] font-black uppercase">
+                <button onClick={() => update(setSchedulePaused(s, !s.paused, todayKey))} className={s.paused ? 'text-green-600' : 'text-stone-500'}>
+                  {s.paused ? 'Resume' : 'Pause'}
+                </button>
+                <button onClick={() => remove(s)} className="text-red-500">Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="e.g. Shop Rent" className="w-full p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm" />
+        <div className="grid grid-cols-2 gap-2">
+          <input type="number" value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value })} placeholder="Amount (₹)" className="p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm" />
+          <select value={category} onChange={e => setForm({ ...form, category: e.target.value })} className="p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm">
+            {expenseCategories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+          </select>
+          <select value={form.rule} onChange={e => setForm({ ...form, rule: e.target.value as RecurrenceRule })} className="p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm">
+            {RECURRENCE_RULES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+          </select>
+          <select value={form.paymentMethod} onChange={e => setForm({ ...form, paymentMethod: e.target.value as PaymentMethod })} className="p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm">
+            {PAID_METHODS.map(pm => <option key={pm.id} value={pm.id}>{pm.label}</option>)}
+          </select>
+        </div>
+        <label className="block text-[10px] font-black uppercase text-stone-400">
+          First due on
+          <input type="date" value={form.startDate} onChange={e => setForm({ ...form, startDate: e.target.value })} className="w-full mt-1 p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm text-stone-700" />
+        </label>
+        <button type="submit" className="w-full bg-stone-900 text-white font-black py-3 rounded-2xl text-[10px] uppercase tracking-widest">Add Schedule</button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Transaction } from '../types';
+import { formatDateKey, getBusinessDateKey } from '../services/dateUtils';
+
+interface RecurringReviewProps {
+  entries: Transaction[];
+  cutoffHour: number;
+  onConfirm: (ids: string[]) => void;
+  onAdjust: (t: Transaction) => void;
+  onSkip: (id: string) => void;
+}
+
+export const RecurringReview: React.FC<RecurringReviewProps> = ({ entries, cutoffHour, onConfirm, onAdjust, onSkip }) => {
+  if (!entries.length) return null;
+  const total = entries.reduce((sum, t) => sum + t.amount, 0);
+
+  return (
+    <div className="bg-white p-5 rounded-[32px] border border-amber-200 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-amber-800 font-black text-xs uppercase tracking-widest">Auto-posted • Review</h4>
+          <p className="text-[10px] font-bold text-stone-400">{entries.length} recurring entries, ₹{total.toLocaleString('en-IN')}</p>
+        </div>
+        {entries.length > 1 && (
+          <button onClick={() => onConfirm(entries.map(t => t.id))} className="text-[10px] font-black uppercase text-green-600">Confirm All</button>
+        )}
+      </div>
+      <div className="divide-y divide-stone-100">
+        {entries.map(t => (
+          <div key={t.id} className="py-2 flex items-center justify-between text-xs">
+            <div>
+              <p className="font-bold text-stone-700">{t.notes || t.category}</p>
+              <p className="text-[10px] font-bold text-stone-400">{formatDateKey(getBusinessDateKey(t.date, cutoffHour))} • {t.category} • {t.paymentMethod}</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <p className="font-black text-red-500">₹{t.amount}</p>
+              <div className="flex flex-col items-end gap-1 text-[9px] font-black uppercase">
+                <button onClick={() => onConfirm([t.id])} className="text-green-600">OK</button>
+                <button onClick={() => onAdjust(t)} className="text-amber-600">Adjust</button>
+                <button onClick={() => onSkip(t.id)} className="text-red-500">Skip</button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
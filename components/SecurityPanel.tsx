@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { UserProfile } from '../types';
+import { DEFAULT_LOCK_MINUTES, LOCK_MINUTE_OPTIONS, hashPin, isValidPin } from '../services/ownerPin';
+
+interface SecurityPanelProps {
+  user: UserProfile;
+  onChange: (u: UserProfile) => void;
+  onLockNow: () => void;
+}
+
+export const SecurityPanel: React.FC<SecurityPanelProps> = ({ user, onChange, onLockNow }) => {
+  const [form, setForm] = useState({ pin: '', confirm: '' });
+  const [saving, setSaving] = useState(false);
+
+  const savePin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(form.pin)) return alert("PIN must be 4 to 6 digits.");
+    if (form.pin !== form.confirm) return alert("The two PINs do not match.");
+    setSaving(true);
+    try {
+      onChange({ ...user, ownerPin: await hashPin(form.pin) });
+      setForm({ pin: '', confirm: '' });
+      alert(user.ownerPin ? "Owner PIN changed." : "Owner PIN set. The app will lock when left idle.");
+    } catch (err) {
+      console.error("PIN Error:", err);
+      alert((err as Error).message || "Could not save the PIN.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removePin = () => {
+    if (!window.confirm("Remove the owner PIN? Anyone with the phone will be able to edit entries, pay staff and change settings.")) return;
+    onChange({ ...user, ownerPin: undefined });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-[40px] border border-stone-200 space-y-4">
+      <div>
+        <h4 className="text-xs font-black uppercase text-stone-400 tracking-widest mb-2">Owner PIN</h4>
+        <p className="text-xs text-stone-500 font-medium">
+          {user.ownerPin
+            ? 'The app locks when left idle. Cashiers can record sales; editing the ledger, payroll, exports and settings need the PIN.'
+            : 'Set a PIN to lock the app when left idle and hand the counter over in cashier mode.'}
+        </p>
+      </div>
+
+      <form onSubmit={savePin} className="space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <input type="password" inputMode="numeric" maxLength={6} value={form.pin} onChange={e => setForm({ ...form, pin: e.target.value.replace(/\D/g, '') })} placeholder={user.ownerPin ? 'New PIN' : 'PIN'} className="p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm font-bold tracking-widest" />
+          <input type="password" inputMode="numeric" maxLength={6} value={form.confirm} onChange={e => setForm({ ...form, confirm: e.target.value.replace(/\D/g, '') })} placeholder="Repeat PIN" className="p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm font-bold tracking-widest" />
+        </div>
+        <button type="submit" disabled={saving} className="w-full bg-stone-900 text-white font-black py-3 rounded-2xl text-[10px] uppercase tracking-widest disabled:opacity-50">
+          {user.ownerPin ? 'Change PIN' : 'Set PIN'}
+        </button>
+      </form>
+
+      {user.ownerPin && (
+        <>
+          <label className="block text-[10px] font-black uppercase text-stone-400">
+            Lock after
+            <select
+              value={user.lockAfterMinutes || DEFAULT_LOCK_MINUTES}
+              onChange={e => onChange({ ...user, lockAfterMinutes: Number(e.target.value) })}
+              className="w-full mt-1 p-3 bg-stone-50 border border-stone-200 rounded-2xl outline-none text-sm font-bold text-stone-700"
+            >
+              {LOCK_MINUTE_OPTIONS.map(m => <option key={m} value={m}>{m} min idle</option>)}
+            </select>
+          </label>
+          <div className="flex gap-3">
+            <button onClick={onLockNow} className="flex-1 border-2 border-stone-200 text-stone-700 font-black py-3 rounded-2xl text-[10px] uppercase tracking-widest">Lock Now</button>
+            <button onClick={removePin} className="flex-1 text-red-500 font-black text-[10px] uppercase tracking-widest">Remove PIN</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
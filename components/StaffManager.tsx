@@ -1,27 +1,155 @@
 
 import React, { useState } from 'react';
-import { StaffMember, Transaction, TransactionType } from '../types';
+import { StaffMember, Transaction, TransactionType, PayFrequency, HoldRelease, PayrollPolicy, PaymentMethod, UserProfile, Outlet } from '../types';
+import { PAY_FREQUENCIES, HOLD_RELEASES, PAID_METHODS } from '../constants';
+import { DEFAULT_PAY_POLICY, PayBreakdown, computeAttendancePay, describeBreakdown, describePolicy, grossPerPayout, isMonthEndWindow, outstandingAdvance, payPeriodFor, payoutCategory, planAdvanceRecovery, splitPayout } from '../services/payroll';
+import { formatDateKey, getBusinessDateKey } from '../services/dateUtils';
+import { transferStaff } from '../services/outlets';
+import { AttendanceRegister } from './AttendanceRegister';
+import { StaffStatementView } from './StaffStatementView';
+import { exportStaffWorkbook } from '../services/exporter';
+import { downloadBlob } from '../services/download';
 
 interface StaffManagerProps {
   staff: StaffMember[];
+  transactions: Transaction[];
+  user: UserProfile;
+  outlets: Outlet[];
+  cutoffHour: number;
   onAddStaff: (s: StaffMember) => void;
   onUpdateStaff: (s: StaffMember) => void;
-  onAddTransaction: (t: Transaction) => void;
+  onAddTransaction: (t: Transaction) => boolean;
+  requireOwner: (action: () => void) => void; // Staff records, payroll and exports need the owner PIN in cashier mode
 }
 
-export const StaffManager: React.FC<StaffManagerProps> = ({ staff, onAddStaff, onUpdateStaff, onAddTransaction }) => {
+interface PolicyForm {
+  frequency: PayFrequency;
+  pay: string; // Per day, week or month depending on frequency
+  payoutPercent: string;
+  holdRelease: HoldRelease;
+  dailyRate: string;
+}
+
+const EMPTY_POLICY_FORM: PolicyForm = {
+  frequency: DEFAULT_PAY_POLICY.frequency,
+  pay: '',
+  payoutPercent: DEFAULT_PAY_POLICY.payoutPercent.toString(),
+  holdRelease: DEFAULT_PAY_POLICY.holdRelease,
+  dailyRate: ''
+};
+
+const policyFormFor = (s: StaffMember): PolicyForm => ({
+  frequency: s.payPolicy.frequency,
+  pay: grossPerPayout(s).toString(),
+  payoutPercent: s.payPolicy.payoutPercent.toString(),
+  holdRelease: s.payPolicy.holdRelease,
+  dailyRate: s.payPolicy.dailyRate?.toString() || ''
+});
+
+// weeklyBasePay stays a nominal weekly cost for every frequency so exports and totals keep working
+const applyPolicyForm = (form: PolicyForm): { weeklyBasePay: number; payPolicy: PayrollPolicy } => {
+  const pay = Number(form.pay);
+  const payPolicy: PayrollPolicy = {
+    frequency: form.frequency,
+    payoutPercent: Math.min(100, Math.max(0, Number(form.payoutPercent) || 0)),
+    holdRelease: form.holdRelease,
+    dailyRate: form.frequency === 'DAILY' ? pay : (form.dailyRate ? Number(form.dailyRate) : undefined),
+    monthlySalary: form.frequency === 'MONTHLY' ? pay : undefined
+  };
+  const weeklyBasePay = form.frequency === 'DAILY' ? pay * 7
+    : form.frequency === 'MONTHLY' ? Math.round(pay * 12 / 52)
+    : pay;
+  return { weeklyBasePay, payPolicy };
+};
+
+const PolicyFields: React.FC<{ value: PolicyForm; onChange: (v: PolicyForm) => void }> = ({ value, onChange }) => {
+  const unit = PAY_FREQUENCIES.find(f => f.id === value.frequency)?.label;
+  return (
+    <>
+      <div>
+        <label className="block text-[10px] font-bold text-stone-500 uppercase">Pay Frequency</label>
+        <select
+          value={value.frequency}
+          onChange={e => onChange({ ...value, frequency: e.target.value as PayFrequency })}
+          className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg mt-1 outline-none"
+        >
+          {PAY_FREQUENCIES.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="block text-[10px] font-bold text-stone-500 uppercase">{value.frequency === 'DAILY' ? 'Daily Wage' : `${unit} Salary`} (₹)</label>
+        <input
+          type="number"
+          value={value.pay}
+          onChange={e => onChange({ ...value, pay: e.target.value })}
+          className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg mt-1 outline-none"
+          placeholder="Amount"
+        />
+      </div>
+      <div>
+        <label className="block text-[10px] font-bold text-stone-500 uppercase">Paid Now (%)</label>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={value.payoutPercent}
+          onChange={e => onChange({ ...value, payoutPercent: e.target.value })}
+          className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg mt-1 outline-none"
+        />
+      </div>
+      <div>
+        <label className="block text-[10px] font-bold text-stone-500 uppercase">Hold Release</label>
+        <select
+          value={value.holdRelease}
+          onChange={e => onChange({ ...value, holdRelease: e.target.value as HoldRelease })}
+          className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg mt-1 outline-none"
+        >
+          {HOLD_RELEASES.map(h => <option key={h.id} value={h.id}>{h.label}</option>)}
+        </select>
+      </div>
+      {value.frequency !== 'DAILY' && (
+        <div className="col-span-2">
+          <label className="block text-[10px] font-bold text-stone-500 uppercase">Daily Rate (₹, optional)</label>
+          <input
+            type="number"
+            value={value.dailyRate}
+            onChange={e => onChange({ ...value, dailyRate: e.target.value })}
+            className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg mt-1 outline-none"
+            placeholder="Used for part-time weeks"
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+export const StaffManager: React.FC<StaffManagerProps> = ({ staff, transactions, user, outlets, cutoffHour, onAddStaff, onUpdateStaff, onAddTransaction, requireOwner }) => {
+  const todayKey = getBusinessDateKey(new Date(), cutoffHour);
   const [showAddForm, setShowAddForm] = useState(false);
   const [newStaff, setNewStaff] = useState({
     name: '',
     phone: '',
     address: '',
-    aadhaar: '',
-    pay: ''
+    aadhaar: ''
   });
+  const [newPolicy, setNewPolicy] = useState<PolicyForm>(EMPTY_POLICY_FORM);
+  const [policyEdit, setPolicyEdit] = useState<{ staffId: string; form: PolicyForm } | null>(null);
+  const [payPreview, setPayPreview] = useState<{ staffId: string; breakdown: PayBreakdown; catchUp: boolean } | null>(null);
+  const [statementStaffId, setStatementStaffId] = useState<string | null>(null);
+  const [advanceForm, setAdvanceForm] = useState<{ staffId: string; amount: string; installment: string; paymentMethod: PaymentMethod; notes: string } | null>(null);
+  const [transferStaffId, setTransferStaffId] = useState<string | null>(null);
+
+  // Pay history stays with the person; only where they work from now on changes
+  const handleTransfer = (s: StaffMember, toOutletId: string) => {
+    const target = outlets.find(o => o.id === toOutletId);
+    if (!target || !window.confirm(`Move ${s.name} to ${target.name}? They will show under that outlet's staff from today.`)) return;
+    onUpdateStaff(transferStaff(s, toOutletId, todayKey));
+    setTransferStaffId(null);
+  };
 
   const handleAddStaff = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newStaff.name || !newStaff.pay || !newStaff.phone) {
+    if (!newStaff.name || !newPolicy.pay || !newStaff.phone) {
       alert("Please fill in at least Name, Phone, and Salary");
       return;
     }
@@ -32,77 +160,173 @@ export const StaffManager: React.FC<StaffManagerProps> = ({ staff, onAddStaff, o
       phone: newStaff.phone,
       address: newStaff.address,
       aadhaar: newStaff.aadhaar,
-      weeklyBasePay: Number(newStaff.pay),
+      ...applyPolicyForm(newPolicy),
       totalHeldBalance: 0,
-      joinedDate: new Date().toISOString()
+      joinedDate: new Date().toISOString(),
+      attendance: [],
+      advances: []
     });
     
-    setNewStaff({ name: '', phone: '', address: '', aadhaar: '', pay: '' });
+    setNewStaff({ name: '', phone: '', address: '', aadhaar: '' });
+    setNewPolicy(EMPTY_POLICY_FORM);
     setShowAddForm(false);
   };
 
-  const processWeeklyPay = (s: StaffMember) => {
-    const weeklyTotal = s.weeklyBasePay;
-    const paidNow = weeklyTotal * 0.40; // 40% paid now
-    const heldAmount = weeklyTotal * 0.60; // 60% held
+  const savePolicy = (s: StaffMember) => {
+    if (!policyEdit || !policyEdit.form.pay) return;
+    onUpdateStaff({ ...s, ...applyPolicyForm(policyEdit.form) });
+    setPolicyEdit(null);
+  };
+
+  const giveAdvance = (s: StaffMember) => {
+    if (!advanceForm || !Number(advanceForm.amount)) return;
+    const amount = Number(advanceForm.amount);
+    const transactionId = `adv-${Date.now()}-${s.id}`;
+
+    const recorded = onAddTransaction({
+      id: transactionId,
+      date: new Date().toISOString(),
+      amount,
+      category: 'Staff - Advance',
+      type: TransactionType.EXPENSE,
+      paymentMethod: advanceForm.paymentMethod,
+      notes: `Advance to ${s.name}${advanceForm.notes ? `: ${advanceForm.notes}` : ''}`,
+      staffId: s.id,
+      payroll: { kind: 'ADVANCE', gross: amount }
+    });
+    if (!recorded) return;
+
+    onUpdateStaff({
+      ...s,
+      advances: [...s.advances, {
+        id: transactionId,
+        date: new Date().toISOString(),
+        amount,
+        installment: Number(advanceForm.installment) || 0,
+        recovered: 0,
+        transactionId,
+        notes: advanceForm.notes || undefined
+      }]
+    });
+    setAdvanceForm(null);
+  };
+
+  const previewPay = (s: StaffMember) => {
+    if (s.lastPaidThrough && s.lastPaidThrough >= todayKey) {
+      alert(`${s.name} is already paid through ${formatDateKey(s.lastPaidThrough)}.`);
+      return;
+    }
+    const { startKey, endKey, catchUp } = payPeriodFor(s, todayKey, cutoffHour);
+    setPayPreview({ staffId: s.id, breakdown: computeAttendancePay(s, startKey, endKey), catchUp });
+  };
+
+  const processWeeklyPay = (s: StaffMember, breakdown: PayBreakdown) => {
+    const policy = s.payPolicy;
+    const { paidNow, held: heldAmount } = splitPayout(breakdown.gross, policy);
+    const recovery = planAdvanceRecovery(s, paidNow);
+    const cashPaid = paidNow - recovery.total;
+    const freq = PAY_FREQUENCIES.find(f => f.id === policy.frequency)?.label;
+
+    // Nothing changes hands when the whole amount is held, so there is no expense to record
+    if (paidNow === 0) {
+      onUpdateStaff({
+        ...s,
+        totalHeldBalance: s.totalHeldBalance + heldAmount,
+        lastPaidThrough: breakdown.endKey,
+        heldPayRuns: [...(s.heldPayRuns || []), { id: `held-${Date.now()}-${s.id}`, date: new Date().toISOString(), gross: breakdown.gross, periodStart: breakdown.startKey, periodEnd: breakdown.endKey }]
+      });
+      setPayPreview(null);
+      alert(`Processed pay for ${s.name}.\nHeld: ₹${heldAmount}`);
+      return;
+    }
 
-    onAddTransaction({
+    const recorded = onAddTransaction({
       id: `pay-${Date.now()}-${s.id}`,
       date: new Date().toISOString(),
-      amount: paidNow,
-      category: 'Staff - Weekly',
+      amount: cashPaid,
+      category: payoutCategory(policy),
       type: TransactionType.EXPENSE,
       paymentMethod: 'CASH',
-      notes: `Weekly 40% pay for ${s.name}. Held: ₹${heldAmount}`,
-      staffId: s.id
+      notes: `${freq} ${policy.payoutPercent}% pay for ${s.name}. Held: ₹${heldAmount}.${recovery.total ? ` Advance recovered: ₹${recovery.total}.` : ''} ${describeBreakdown(breakdown)}`,
+      staffId: s.id,
+      payroll: {
+        kind: 'PAYOUT',
+        gross: breakdown.gross,
+        held: heldAmount,
+        advanceRecovered: recovery.total,
+        recoveries: recovery.recoveries,
+        periodStart: breakdown.startKey,
+        periodEnd: breakdown.endKey
+      }
     });
+    if (!recorded) return;
 
     onUpdateStaff({
       ...s,
-      totalHeldBalance: s.totalHeldBalance + heldAmount
+      totalHeldBalance: s.totalHeldBalance + heldAmount,
+      lastPaidThrough: breakdown.endKey,
+      advances: recovery.advances
     });
     
-    alert(`Processed pay for ${s.name}.\nPaid: ₹${paidNow}\nHeld: ₹${heldAmount}`);
+    setPayPreview(null);
+    alert(`Processed pay for ${s.name}.\nPaid: ₹${cashPaid}\nHeld: ₹${heldAmount}${recovery.total ? `\nAdvance recovered: ₹${recovery.total}` : ''}`);
   };
 
   const settleMonthlyHold = (s: StaffMember) => {
     if (s.totalHeldBalance <= 0) return;
     
-    const amountToPay = s.totalHeldBalance;
+    let amountToPay = s.totalHeldBalance;
+    if (s.payPolicy.holdRelease === 'ON_DEMAND') {
+      const input = window.prompt(`Release how much of ${s.name}'s held ₹${s.totalHeldBalance}?`, s.totalHeldBalance.toString());
+      if (input === null) return;
+      amountToPay = Math.min(s.totalHeldBalance, Number(input));
+      if (!amountToPay || amountToPay <= 0) return;
+    } else if (!isMonthEndWindow() && !window.confirm(`${s.name}'s hold is scheduled for release at month end. Release it early?`)) {
+      return;
+    }
 
-    onAddTransaction({
+    const recovery = planAdvanceRecovery(s, amountToPay);
+    const cashPaid = amountToPay - recovery.total;
+
+    const recorded = onAddTransaction({
       id: `settle-${Date.now()}-${s.id}`,
       date: new Date().toISOString(),
-      amount: amountToPay,
+      amount: cashPaid,
       category: 'Staff - Month End',
       type: TransactionType.EXPENSE,
       paymentMethod: 'CASH',
-      notes: `Month-end settlement (held 60%) for ${s.name}`,
-      staffId: s.id
+      notes: `${amountToPay < s.totalHeldBalance ? 'Partial hold release' : 'Month-end settlement'} (held ${100 - s.payPolicy.payoutPercent}%) for ${s.name}. Released: ₹${amountToPay}.${recovery.total ? ` Advance recovered: ₹${recovery.total}.` : ''}`,
+      staffId: s.id,
+      payroll: { kind: 'HOLD_RELEASE', gross: amountToPay, advanceRecovered: recovery.total, recoveries: recovery.recoveries }
     });
+    if (!recorded) return;
 
     onUpdateStaff({
       ...s,
-      totalHeldBalance: 0
+      totalHeldBalance: s.totalHeldBalance - amountToPay,
+      advances: recovery.advances
     });
 
-    alert(`Settled month-end dues for ${s.name}: ₹${amountToPay}`);
+    alert(`Settled held dues for ${s.name}: ₹${cashPaid}${recovery.total ? ` (₹${recovery.total} advance recovered)` : ''}`);
   };
 
   const exportStaffToExcel = () => {
-    const headers = "Name,Phone,Aadhaar,Address,Weekly Pay,Held Balance,Joined Date\n";
-    const rows = staff.map(s => 
-      `${s.name},${s.phone},${s.aadhaar},"${s.address}",${s.weeklyBasePay},${s.totalHeldBalance},${s.joinedDate}`
-    ).join("\n");
-    
-    const blob = new Blob([headers + rows], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `Staff_List_${new Date().toLocaleDateString()}.csv`;
-    a.click();
+    downloadBlob(exportStaffWorkbook(staff, transactions), `Staff_List_${new Date().toISOString().slice(0, 10)}.xlsx`);
   };
 
+  const statementMember = staff.find(s => s.id === statementStaffId);
+  if (statementMember) {
+    return (
+      <StaffStatementView
+        member={statementMember}
+        transactions={transactions}
+        user={user}
+        cutoffHour={cutoffHour}
+        onBack={() => setStatementStaffId(null)}
+      />
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between px-2">
@@ -112,14 +336,14 @@ export const StaffManager: React.FC<StaffManagerProps> = ({ staff, onAddStaff, o
         </div>
         <div className="flex gap-2">
            <button 
-            onClick={exportStaffToExcel}
+            onClick={() => requireOwner(exportStaffToExcel)}
             title="Download Staff Excel"
             className="bg-stone-100 text-stone-600 p-2 rounded-full border border-stone-200"
           >
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg>
           </button>
           <button 
-            onClick={() => setShowAddForm(!showAddForm)}
+            onClick={() => showAddForm ? setShowAddForm(false) : requireOwner(() => setShowAddForm(true))}
             className="bg-amber-600 text-white p-2 rounded-full shadow-lg"
           >
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M5 12h14"/><path d="M12 5v14"/></svg>
@@ -141,7 +365,7 @@ export const StaffManager: React.FC<StaffManagerProps> = ({ staff, onAddStaff, o
                 placeholder="Staff Name"
               />
             </div>
-            <div>
+            <div className="col-span-2">
               <label className="block text-[10px] font-bold text-stone-500 uppercase">Phone Number</label>
               <input 
                 type="tel" 
@@ -151,16 +375,6 @@ export const StaffManager: React.FC<StaffManagerProps> = ({ staff, onAddStaff, o
                 placeholder="10 Digits"
               />
             </div>
-            <div>
-              <label className="block text-[10px] font-bold text-stone-500 uppercase">Weekly Salary (₹)</label>
-              <input 
-                type="number" 
-                value={newStaff.pay} 
-                onChange={e => setNewStaff({...newStaff, pay: e.target.value})}
-                className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg mt-1 outline-none"
-                placeholder="Amount"
-              />
-            </div>
             <div className="col-span-2">
               <label className="block text-[10px] font-bold text-stone-500 uppercase">Aadhaar Number</label>
               <input 
@@ -181,11 +395,14 @@ export const StaffManager: React.FC<StaffManagerProps> = ({ staff, onAddStaff, o
                 placeholder="Full Address"
               />
             </div>
+            <PolicyFields value={newPolicy} onChange={setNewPolicy} />
           </div>
           <button type="submit" className="w-full bg-stone-900 text-white font-bold py-3 rounded-xl">Register Staff</button>
         </form>
       )}
 
+      <AttendanceRegister staff={staff} todayKey={todayKey} onUpdateStaff={onUpdateStaff} requireOwner={requireOwner} />
+
       <div className="space-y-4">
         {staff.map(s => (
           <div key={s.id} className="bg-white rounded-3xl border border-stone-200 shadow-sm overflow-hidden">
@@ -195,12 +412,41 @@ export const StaffManager: React.FC<StaffManagerProps> = ({ staff, onAddStaff, o
                   <h4 className="font-bold text-lg text-stone-800 leading-tight">{s.name}</h4>
                   <div className="flex items-center gap-2 mt-1">
                      <span className="text-[10px] font-medium bg-stone-100 text-stone-500 px-2 py-0.5 rounded">ID: {s.id.slice(-4)}</span>
-                     <span className="text-[10px] font-medium bg-amber-100 text-amber-700 px-2 py-0.5 rounded">₹{s.weeklyBasePay}/wk</span>
+                     <span className="text-[10px] font-medium bg-amber-100 text-amber-700 px-2 py-0.5 rounded">₹{grossPerPayout(s)}/{PAY_FREQUENCIES.find(f => f.id === s.payPolicy.frequency)?.unit}</span>
+                     <button
+                       onClick={() => requireOwner(() => setPolicyEdit(policyEdit?.staffId === s.id ? null : { staffId: s.id, form: policyFormFor(s) }))}
+                       className="text-[10px] font-bold text-amber-600 underline"
+                     >
+                       Policy
+                     </button>
+                     <button
+                       onClick={() => requireOwner(() => setAdvanceForm(advanceForm?.staffId === s.id ? null : { staffId: s.id, amount: '', installment: '', paymentMethod: 'CASH', notes: '' }))}
+                       className="text-[10px] font-bold text-amber-600 underline"
+                     >
+                       Advance
+                     </button>
+                     <button
+                       onClick={() => requireOwner(() => setStatementStaffId(s.id))}
+                       className="text-[10px] font-bold text-amber-600 underline"
+                     >
+                       Statement
+                     </button>
+                     {outlets.length > 1 && (
+                       <button
+                         onClick={() => requireOwner(() => setTransferStaffId(transferStaffId === s.id ? null : s.id))}
+                         className="text-[10px] font-bold text-amber-600 underline"
+                       >
+                         Transfer
+                       </button>
+                     )}
                   </div>
                 </div>
                 <div className="text-right">
                   <p className="text-[10px] font-bold text-stone-400 uppercase">Total Held</p>
                   <p className="text-xl font-black text-amber-600">₹{s.totalHeldBalance}</p>
+                  {outstandingAdvance(s) > 0 && (
+                    <p className="text-[10px] font-bold text-red-500">Advance due ₹{outstandingAdvance(s)}</p>
+                  )}
                 </div>
               </div>
 
@@ -219,19 +465,98 @@ export const StaffManager: React.FC<StaffManagerProps> = ({ staff, onAddStaff, o
                 </div>
               </div>
 
+              {transferStaffId === s.id && (
+                <div className="mb-4 p-4 bg-stone-50 rounded-2xl border border-stone-100 space-y-2 animate-in slide-in-from-top-2 duration-200">
+                  <select
+                    value=""
+                    onChange={e => handleTransfer(s, e.target.value)}
+                    className="w-full p-2 bg-white border border-stone-200 rounded-lg outline-none text-sm"
+                  >
+                    <option value="">Move to outlet…</option>
+                    {outlets.filter(o => o.id !== s.outletId).map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                  </select>
+                  {(s.transfers || []).map((t, i) => (
+                    <p key={i} className="text-[10px] font-bold text-stone-500">
+                      {formatDateKey(t.date)}: {outlets.find(o => o.id === t.fromOutletId)?.name || 'Removed outlet'} → {outlets.find(o => o.id === t.toOutletId)?.name || 'Removed outlet'}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {policyEdit?.staffId === s.id && (
+                <div className="mb-4 p-4 bg-stone-50 rounded-2xl border border-stone-100 animate-in slide-in-from-top-2 duration-200">
+                  <div className="grid grid-cols-2 gap-3">
+                    <PolicyFields value={policyEdit.form} onChange={form => setPolicyEdit({ staffId: s.id, form })} />
+                  </div>
+                  <button onClick={() => savePolicy(s)} className="w-full mt-3 bg-stone-900 text-white font-bold text-xs py-2 rounded-xl">Save Policy</button>
+                </div>
+              )}
+
+              {advanceForm?.staffId === s.id && (
+                <div className="mb-4 p-4 bg-stone-50 rounded-2xl border border-stone-100 space-y-3 animate-in slide-in-from-top-2 duration-200">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-[10px] font-bold text-stone-500 uppercase">Amount (₹)</label>
+                      <input type="number" value={advanceForm.amount} onChange={e => setAdvanceForm({ ...advanceForm, amount: e.target.value })} className="w-full p-2 bg-white border border-stone-200 rounded-lg mt-1 outline-none" />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-stone-500 uppercase">Recover / Payout (₹)</label>
+                      <input type="number" value={advanceForm.installment} onChange={e => setAdvanceForm({ ...advanceForm, installment: e.target.value })} className="w-full p-2 bg-white border border-stone-200 rounded-lg mt-1 outline-none" placeholder="Full" />
+                    </div>
+                    <select value={advanceForm.paymentMethod} onChange={e => setAdvanceForm({ ...advanceForm, paymentMethod: e.target.value as PaymentMethod })} className="p-2 bg-white border border-stone-200 rounded-lg outline-none text-sm">
+                      {PAID_METHODS.map(pm => <option key={pm.id} value={pm.id}>{pm.label}</option>)}
+                    </select>
+                    <input type="text" value={advanceForm.notes} onChange={e => setAdvanceForm({ ...advanceForm, notes: e.target.value })} className="p-2 bg-white border border-stone-200 rounded-lg outline-none text-sm" placeholder="Reason" />
+                  </div>
+                  <button onClick={() => giveAdvance(s)} className="w-full bg-stone-900 text-white font-bold text-xs py-2 rounded-xl">Give Advance</button>
+                  {s.advances.filter(a => a.amount > a.recovered).map(a => (
+                    <div key={a.id} className="flex justify-between text-[10px] font-bold text-stone-500">
+                      <span>{new Date(a.date).toLocaleDateString()} • ₹{a.amount}{a.installment ? ` @ ₹${a.installment}/payout` : ''}</span>
+                      <span className="text-red-500">₹{a.amount - a.recovered} due</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {payPreview?.staffId === s.id && (() => {
+                const b = payPreview.breakdown;
+                const { paidNow, held } = splitPayout(b.gross, s.payPolicy);
+                const recovery = planAdvanceRecovery(s, paidNow);
+                return (
+                  <div className="mb-4 p-4 bg-amber-50 rounded-2xl border border-amber-100 text-xs space-y-1 animate-in slide-in-from-top-2 duration-200">
+                    <p className="font-black text-amber-900 uppercase tracking-widest text-[10px] mb-2">{formatDateKey(b.startKey)} – {formatDateKey(b.endKey)} • {b.days} days</p>
+                    {payPreview.catchUp && <p className="text-amber-700 font-bold">Includes unpaid days from earlier pay periods.</p>}
+                    <div className="flex justify-between text-stone-600"><span>Present {b.counts.PRESENT + b.counts.UNMARKED} • Half {b.counts.HALF_DAY} • Absent {b.counts.ABSENT} • Leave {b.counts.LEAVE}</span></div>
+                    <div className="flex justify-between text-stone-600"><span>Base for period</span><span>₹{b.base}</span></div>
+                    <div className="flex justify-between text-red-500"><span>Absence deduction</span><span>−₹{b.deduction}</span></div>
+                    <div className="flex justify-between text-green-600"><span>Overtime ({b.overtimeHours}h)</span><span>+₹{b.overtimePay}</span></div>
+                    <div className="flex justify-between font-black text-stone-800 pt-1 border-t border-amber-100"><span>Payable</span><span>₹{b.gross}</span></div>
+                    <div className="flex justify-between text-stone-500"><span>Pay now / Hold</span><span>₹{paidNow} / ₹{held}</span></div>
+                    {recovery.total > 0 && (
+                      <div className="flex justify-between text-red-500"><span>Advance recovery</span><span>−₹{recovery.total}</span></div>
+                    )}
+                    <div className="flex justify-between font-black text-stone-800"><span>Cash in hand</span><span>₹{paidNow - recovery.total}</span></div>
+                    <div className="flex gap-2 pt-2">
+                      <button onClick={() => setPayPreview(null)} className="flex-1 text-stone-400 font-bold">Cancel</button>
+                      <button onClick={() => processWeeklyPay(s, b)} className="flex-1 bg-stone-900 text-white font-bold py-2 rounded-xl">Confirm Pay</button>
+                    </div>
+                  </div>
+                );
+              })()}
+
               <div className="flex gap-2">
                 <button 
-                  onClick={() => processWeeklyPay(s)}
+                  onClick={() => requireOwner(() => previewPay(s))}
                   className="flex-1 bg-stone-100 hover:bg-stone-200 text-stone-700 font-bold text-xs py-3 rounded-xl transition-colors"
                 >
-                  Pay 40% (Weekly)
+                  Pay {s.payPolicy.payoutPercent}% ({PAY_FREQUENCIES.find(f => f.id === s.payPolicy.frequency)?.label})
                 </button>
                 <button 
-                  onClick={() => settleMonthlyHold(s)}
+                  onClick={() => requireOwner(() => settleMonthlyHold(s))}
                   disabled={s.totalHeldBalance <= 0}
                   className="flex-1 bg-green-600 hover:bg-green-700 text-white font-bold text-xs py-3 rounded-xl disabled:opacity-30 disabled:bg-stone-200 disabled:text-stone-400 transition-colors"
                 >
-                  Settle Held 60%
+                  {s.payPolicy.holdRelease === 'MONTH_END' ? 'Settle Held' : 'Release Held'}
                 </button>
               </div>
             </div>
@@ -242,23 +567,33 @@ export const StaffManager: React.FC<StaffManagerProps> = ({ staff, onAddStaff, o
       <div className="bg-amber-900 text-amber-50 p-6 rounded-3xl shadow-lg mt-8 border border-amber-800">
         <h4 className="text-xs font-bold text-amber-400 uppercase mb-4 tracking-widest">Payroll Protocol</h4>
         <div className="space-y-3 text-sm leading-relaxed opacity-90">
+          {staff.map((s, i) => (
+            <div key={s.id} className="flex gap-3">
+               <span className="w-5 h-5 shrink-0 bg-amber-800 rounded flex items-center justify-center text-[10px]">{i + 1}</span>
+               <p><span className="font-bold">{s.name}:</span> {describePolicy(s.payPolicy)}.</p>
+            </div>
+          ))}
           <div className="flex gap-3">
-             <span className="w-5 h-5 bg-amber-800 rounded flex items-center justify-center text-[10px]">1</span>
-             <p>Weekly payouts are 40% of base salary to maintain liquid cash flow.</p>
-          </div>
-          <div className="flex gap-3">
-             <span className="w-5 h-5 bg-amber-800 rounded flex items-center justify-center text-[10px]">2</span>
-             <p>60% is automatically held in "Escrow" for the monthly cumulative payment.</p>
-          </div>
-          <div className="flex gap-3">
-             <span className="w-5 h-5 bg-amber-800 rounded flex items-center justify-center text-[10px]">3</span>
-             <p>Escrow payouts are recorded as "Staff - Month End" expenses.</p>
+             <span className="w-5 h-5 shrink-0 bg-amber-800 rounded flex items-center justify-center text-[10px]">{staff.length + 1}</span>
+             <p>Held amounts sit in "Escrow" and are recorded as "Staff - Month End" expenses when released.</p>
           </div>
         </div>
         <div className="mt-6 pt-6 border-t border-amber-800/50 flex justify-between items-end">
            <span className="text-xs font-medium text-amber-400">Total Escrow Liability:</span>
            <span className="text-2xl font-black">₹{staff.reduce((acc, curr) => acc + curr.totalHeldBalance, 0)}</span>
         </div>
+        {staff.some(s => outstandingAdvance(s) > 0) && (
+          <div className="mt-2 space-y-1 text-xs">
+            <div className="flex justify-between text-amber-300">
+              <span>Less advances outstanding:</span>
+              <span>−₹{staff.reduce((acc, curr) => acc + outstandingAdvance(curr), 0)}</span>
+            </div>
+            <div className="flex justify-between font-black">
+              <span>Net owed to staff:</span>
+              <span>₹{staff.reduce((acc, curr) => acc + curr.totalHeldBalance - outstandingAdvance(curr), 0)}</span>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
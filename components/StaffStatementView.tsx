@@ -0,0 +1,97 @@
+import React, { useState, useMemo } from 'react';
+import { StaffMember, Transaction, UserProfile } from '../types';
+import { buildStaffStatement, renderStatementHtml, renderStatementPdf } from '../services/staffStatement';
+import { getBusinessDateKey, monthLabel } from '../services/dateUtils';
+import { downloadPdf } from '../services/download';
+
+interface StaffStatementViewProps {
+  member: StaffMember;
+  transactions: Transaction[];
+  user: UserProfile;
+  cutoffHour: number;
+  onBack: () => void;
+}
+
+export const StaffStatementView: React.FC<StaffStatementViewProps> = ({ member, transactions, user, cutoffHour, onBack }) => {
+  const [monthKey, setMonthKey] = useState(getBusinessDateKey(new Date(), cutoffHour).slice(0, 7));
+
+  const statement = useMemo(
+    () => buildStaffStatement(member, transactions, monthKey, cutoffHour),
+    [member, transactions, monthKey, cutoffHour]
+  );
+
+  const handlePrint = () => {
+    const w = window.open('', '_blank');
+    if (!w) return alert("Allow pop-ups to print the statement.");
+    w.document.write(renderStatementHtml(statement, member, user));
+    w.document.close();
+    w.focus();
+    w.print();
+  };
+
+  const handlePdf = () => {
+    downloadPdf(renderStatementPdf(statement, member, user), `Payslip_${member.name.replace(/\s+/g, '_')}_${monthKey}.pdf`);
+  };
+
+  const summary: [string, number, string][] = [
+    ['Opening Held', statement.openingHeld, 'text-stone-800'],
+    ['Earned', statement.totals.earned, 'text-stone-800'],
+    ['Cash Paid', statement.totals.cashPaid, 'text-green-600'],
+    ['Added to Hold', statement.totals.held, 'text-amber-600'],
+    ['Released', statement.totals.released, 'text-amber-600'],
+    ['Closing Held', statement.closingHeld, 'text-amber-700'],
+    ['Advances', statement.totals.advance, 'text-red-500'],
+    ['Recovered', statement.totals.recovered, 'text-red-500']
+  ];
+
+  return (
+    <div className="space-y-4 animate-in slide-in-from-right-4 duration-300">
+      <div className="flex items-center justify-between px-2">
+        <button onClick={onBack} className="text-xs font-bold text-stone-400 underline">Back</button>
+        <input
+          type="month"
+          value={monthKey}
+          onChange={e => e.target.value && setMonthKey(e.target.value)}
+          className="p-2 bg-white border border-stone-200 rounded-xl text-xs font-bold outline-none"
+        />
+      </div>
+
+      <div className="bg-white p-5 rounded-3xl border border-stone-200 shadow-sm">
+        <h3 className="text-xl font-bold">{member.name}</h3>
+        <p className="text-xs text-stone-500">Statement for {monthLabel(monthKey)}</p>
+        <div className="grid grid-cols-2 gap-3 mt-4">
+          {summary.map(([label, value, color]) => (
+            <div key={label} className="bg-stone-50 p-3 rounded-2xl">
+              <p className="text-[10px] font-bold text-stone-400 uppercase">{label}</p>
+              <p className={`font-black ${color}`}>₹{value}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-3xl border border-stone-200 divide-y divide-stone-100">
+        {statement.rows.length === 0 && <p className="p-5 text-xs text-stone-400 font-bold">No payroll entries this month.</p>}
+        {statement.rows.map(r => (
+          <div key={r.id} className="p-4 text-xs">
+            <div className="flex justify-between font-bold text-stone-800">
+              <span>{new Date(r.date).toLocaleDateString()}</span>
+              <span>₹{r.cashPaid} paid</span>
+            </div>
+            <p className="text-stone-500 mt-1 line-clamp-2">{r.description}</p>
+            <div className="flex gap-3 mt-1 text-[10px] font-bold text-stone-400 uppercase">
+              {r.held > 0 && <span className="text-amber-600">+₹{r.held} held</span>}
+              {r.released > 0 && <span className="text-amber-600">−₹{r.released} released</span>}
+              {r.advance > 0 && <span className="text-red-500">₹{r.advance} advance</span>}
+              {r.recovered > 0 && <span className="text-red-500">₹{r.recovered} recovered</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={handlePrint} className="bg-stone-900 text-white font-bold text-xs py-3 rounded-xl">Print Payslip</button>
+        <button onClick={handlePdf} className="bg-amber-600 text-white font-bold text-xs py-3 rounded-xl">Download PDF</button>
+      </div>
+    </div>
+  );
+};
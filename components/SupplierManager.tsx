@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { Category, PaymentMethod, StockItem, Supplier, Transaction, TransactionType } from '../types';
+import { PAID_METHODS } from '../constants';
+import { categoriesFor } from '../services/categories';
+import { stockItemForCategory } from '../services/inventory';
+import { BillStatus, billStatuses, buildBill, buildSupplierPayment, defaultDueDate, payablesList, supplierPayables } from '../services/suppliers';
+import { formatDateKey, getBusinessDateKey } from '../services/dateUtils';
+
+interface SupplierManagerProps {
+  suppliers: Supplier[];
+  transactions: Transaction[];
+  categories: Category[];
+  stockItems: StockItem[];
+  cutoffHour: number;
+  onAddSupplier: (s: Supplier) => void;
+  onUpdateSupplier: (s: Supplier) => void;
+  onAddTransaction: (t: Transaction) => boolean;
+}
+
+const dueLabel = (s: BillStatus) =>
+  s.overdueDays > 0 ? `${s.overdueDays}d overdue` : s.overdueDays === 0 ? 'Due today' : `Due ${formatDateKey(s.dueDate)}`;
+
+export const SupplierManager: React.FC<SupplierManagerProps> = ({ suppliers, transactions, categories, stockItems, cutoffHour, onAddSupplier, onUpdateSupplier, onAddTransaction }) => {
+  const today = getBusinessDateKey(new Date(), cutoffHour);
+  const [showAdd, setShowAdd] = useState(false);
+  const [form, setForm] = useState({ name: '', phone: '', paymentTermsDays: '7' });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [bill, setBill] = useState({ amount: '', category: '', quantity: '', dueDate: '', notes: '' });
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [payment, setPayment] = useState<{ amount: string; paymentMethod: PaymentMethod }>({ amount: '', paymentMethod: 'CASH' });
+
+  const payables = payablesList(suppliers, transactions, today, cutoffHour);
+  const totalDue = payables.reduce((sum, p) => sum + p.outstanding, 0);
+  const totalOverdue = payables.reduce((sum, p) => sum + p.overdue, 0);
+  const billCategories = categoriesFor(categories, TransactionType.EXPENSE).filter(c => !c.protected);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+    onAddSupplier({
+      id: `sup-${Date.now()}`,
+      name: form.name.trim(),
+      phone: form.phone.trim(),
+      paymentTermsDays: Math.max(0, Number(form.paymentTermsDays) || 0),
+      createdAt: new Date().toISOString()
+    });
+    setForm({ name: '', phone: '', paymentTermsDays: '7' });
+    setShowAdd(false);
+  };
+
+  const selected = suppliers.find(s => s.id === selectedId);
+
+  if (selected) {
+    const summary = supplierPayables(selected, transactions, today, cutoffHour);
+    const statuses = billStatuses(selected.id, transactions, today, cutoffHour);
+    const settled = statuses.filter(s => s.balance <= 0).reverse();
+    const category = bill.category || billCategories[0]?.name || '';
+    const stockItem = stockItemForCategory(stockItems, categories, category);
+
+    const handleBill = (e: React.FormEvent) => {
+      e.preventDefault();
+      const amount = Number(bill.amount);
+      if (!(amount > 0) || !category) return;
+      const quantity = stockItem && Number(bill.quantity) > 0 ? Number(bill.quantity) : undefined;
+      const saved = onAddTransaction(buildBill(selected, {
+        amount,
+        category,
+        dueDate: bill.dueDate || defaultDueDate(selected, today),
+        notes: bill.notes,
+        stockItemId: quantity ? stockItem!.id : undefined,
+        quantity
+      }));
+      if (saved) setBill({ amount: '', category, quantity: '', dueDate: '', notes: '' });
+    };
+
+    const handlePay = (s: BillStatus) => {
+      const amount = Number(payment.amount);
+      if (!(amount > 0)) return;
+      if (amount > s.balance && !window.confirm(`₹${amount} is more than the ₹${s.balance} left on this bill. Record it anyway?`)) return;
+      if (onAddTransaction(buildSupplierPayment(selected, s.bill, amount, payment.paymentMethod))) {
+        setPayingId(null);
+      }
+    };
+
+    return (
+      <div className="space-y-4 animate-in slide-in-from-right-4 duration-300">
+        <button onClick={() => { setSelectedId(null); setPayingId(null); }} className="text-xs font-bold text-stone-400 underline px-2">Back</button>
+
+        <div className="bg-white p-5 rounded-3xl border border-stone-200 shadow-sm">
+          <h3 className="text-xl font-bold">{selected.name}</h3>
+          <p className="text-xs text-stone-500">{selected.phone || 'No phone'}</p>
+          <div className="grid grid-cols-2 gap-3 mt-4">
+            <div className="bg-orange-50 p-3 rounded-2xl">
+              <p className="text-[10px] font-bold text-orange-400 uppercase">We Owe</p>
+              <p className="font-black text-orange-600 text-lg">₹{summary.outstanding.toLocaleString('en-IN')}</p>
+            </div>
+            <div className="bg-stone-50 p-3 rounded-2xl">
+              <p className="text-[10px] font-bold text-stone-400 uppercase">Overdue</p>
+              <p className={`font-black text-lg ${summary.overdue ? 'text-red-600' : 'text-stone-700'}`}>₹{summary.overdue.toLocaleString('en-IN')}</p>
+            </div>
+          </div>
+          <label className="block mt-3 text-[10px] font-black uppercase text-stone-400">
+            Pays bills after (days)
+            <input
+              type="number"
+              value={selected.paymentTermsDays}
+              onChange={e => onUpdateSupplier({ ...selected, paymentTermsDays: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-full mt-1 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs text-stone-700"
+            />
+          </label>
+        </div>
+
+        <form onSubmit={handleBill} className="bg-white p-5 rounded-3xl border border-stone-200 space-y-2">
+          <p className="text-[10px] font-black uppercase text-stone-500 tracking-widest">New Bill (on delivery)</p>
+          <div className="grid grid-cols-2 gap-2">
+            <select value={category} onChange={e => setBill({ ...bill, category: e.target.value, quantity: '' })} className="p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs">
+              {billCategories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+            </select>
+            <input type="number" value={bill.amount} onChange={e => setBill({ ...bill, amount: e.target.value })} placeholder="Amount" className="p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-sm font-bold" />
+          </div>
+          {stockItem && (
+            <input type="number" step="any" value={bill.quantity} onChange={e => setBill({ ...bill, quantity: e.target.value })} placeholder={`Quantity (${stockItem.unit})`} className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs" />
+          )}
+          <label className="block text-[10px] font-black uppercase text-stone-400">
+            Due
+            <input type="date" value={bill.dueDate || defaultDueDate(selected, today)} onChange={e => setBill({ ...bill, dueDate: e.target.value })} className="w-full mt-1 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs text-stone-700" />
+          </label>
+          <input value={bill.notes} onChange={e => setBill({ ...bill, notes: e.target.value })} placeholder="Bill no. / notes (optional)" className="w-full p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-xs" />
+          <button type="submit" className="w-full bg-stone-900 text-white font-bold py-3 rounded-xl text-xs">Save Bill</button>
+        </form>
+
+        <div className="bg-white rounded-3xl border border-stone-200 divide-y divide-stone-100">
+          <p className="p-4 text-[10px] font-black uppercase text-stone-500 tracking-widest">Open Bills</p>
+          {summary.openBills.length === 0 && <p className="p-4 text-xs text-stone-400 font-bold">Nothing due.</p>}
+          {summary.openBills.map(s => (
+            <div key={s.bill.id} className="p-4 space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                <div>
+                  <p className="font-bold text-stone-700">{s.bill.notes || s.bill.category}</p>
+                  <p className={`text-[10px] font-bold ${s.overdueDays > 0 ? 'text-red-500' : 'text-stone-400'}`}>
+                    {s.bill.category} • {dueLabel(s)}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-black text-orange-600">₹{s.balance}</p>
+                  {s.paid > 0 && <p className="text-[10px] font-bold text-stone-400">of ₹{s.bill.amount}</p>}
+                </div>
+              </div>
+              {payingId === s.bill.id ? (
+                <div className="space-y-2 animate-in slide-in-from-top-2 duration-200">
+                  <div className="flex gap-2">
+                    <input type="number" value={payment.amount} onChange={e => setPayment({ ...payment, amount: e.target.value })} className="flex-1 p-2 bg-stone-50 border border-stone-200 rounded-lg outline-none text-sm font-bold" />
+                    <button onClick={() => handlePay(s)} className="bg-stone-900 text-white font-bold px-3 rounded-lg text-xs">Pay</button>
+                    <button onClick={() => setPayingId(null)} className="text-stone-400 font-bold text-xs">Cancel</button>
+                  </div>
+                  <div className="grid grid-cols-4 gap-1">
+                    {PAID_METHODS.map(pm => (
+                      <button
+                        key={pm.id}
+                        type="button"
+                        onClick={() => setPayment({ ...payment, paymentMethod: pm.id as PaymentMethod })}
+                        className={`p-2 rounded-lg border text-[10px] font-bold ${payment.paymentMethod === pm.id ? 'border-amber-500 bg-amber-50 text-amber-700' : 'border-stone-200 text-stone-600'}`}
+                      >
+                        {pm.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => { setPayingId(s.bill.id); setPayment({ amount: String(s.balance), paymentMethod: 'CASH' }); }}
+                  className="text-[10px] font-black uppercase text-amber-600"
+                >
+                  Record Payment
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {settled.length > 0 && (
+          <div className="bg-white rounded-3xl border border-stone-200 divide-y divide-stone-100">
+            <p className="p-4 text-[10px] font-black uppercase text-stone-500 tracking-widest">Paid Bills</p>
+            {settled.slice(0, 10).map(s => (
+              <div key={s.bill.id} className="p-4 flex items-center justify-between text-xs">
+                <div>
+                  <p className="font-bold text-stone-500">{s.bill.notes || s.bill.category}</p>
+                  <p className="text-[10px] font-bold text-stone-400">{formatDateKey(getBusinessDateKey(s.bill.date, cutoffHour))}</p>
+                </div>
+                <p className="font-black text-green-600">₹{s.bill.amount}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between px-2">
+        <h3 className="text-2xl font-black">Suppliers</h3>
+        <button onClick={() => setShowAdd(!showAdd)} className="bg-amber-600 text-white p-2 rounded-full shadow-lg">
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><line x1="12" y1="5" x2="12" y2="19"/><line x1="5" y1="12" x2="19" y2="12"/></svg>
+        </button>
+      </div>
+
+      {showAdd && (
+        <form onSubmit={handleAdd} className="bg-white p-6 rounded-[32px] border border-stone-200 space-y-3 animate-in slide-in-from-top-4 duration-300">
+          <input required value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Supplier name" className="w-full p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm" />
+          <div className="grid grid-cols-2 gap-2">
+            <input type="tel" value={form.phone} onChange={e => setForm({ ...form, phone: e.target.value })} placeholder="Phone" className="p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm" />
+            <input type="number" value={form.paymentTermsDays} onChange={e => setForm({ ...form, paymentTermsDays: e.target.value })} placeholder="Pay after (days)" className="p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none text-sm" />
+          </div>
+          <button type="submit" className="w-full bg-stone-900 text-white font-bold py-3 rounded-xl text-sm">Add Supplier</button>
+        </form>
+      )}
+
+      <div className="bg-orange-600 text-white p-6 rounded-[32px] shadow-lg">
+        <p className="text-[10px] font-black uppercase tracking-widest opacity-70">To Pay</p>
+        <h3 className="text-3xl font-black">₹{totalDue.toLocaleString('en-IN')}</h3>
+        {totalOverdue > 0 && <p className="text-xs font-black mt-1">₹{totalOverdue.toLocaleString('en-IN')} overdue</p>}
+      </div>
+
+      <div className="bg-white rounded-[32px] border border-stone-200 divide-y divide-stone-100">
+        {suppliers.length === 0 && <p className="p-6 text-xs text-stone-400 font-bold">Add the vendors who bill you weekly or monthly, then enter each bill when the goods arrive.</p>}
+        {payables.map(p => (
+          <button key={p.supplier.id} onClick={() => setSelectedId(p.supplier.id)} className="w-full p-5 flex items-center justify-between text-left">
+            <div>
+              <p className="font-black text-stone-800">{p.supplier.name}</p>
+              <p className={`text-[10px] font-bold uppercase ${p.overdue ? 'text-red-500' : 'text-stone-400'}`}>
+                {p.openBills.length} open{p.openBills[0] ? ` • ${dueLabel(p.openBills[0])}` : ''}
+              </p>
+            </div>
+            <p className="font-black text-orange-600">₹{p.outstanding.toLocaleString('en-IN')}</p>
+          </button>
+        ))}
+        {suppliers.filter(s => !payables.some(p => p.supplier.id === s.id)).map(s => (
+          <button key={s.id} onClick={() => setSelectedId(s.id)} className="w-full p-5 flex items-center justify-between text-left">
+            <p className="font-bold text-stone-500">{s.name}</p>
+            <p className="text-[10px] font-black uppercase text-green-600">Settled</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
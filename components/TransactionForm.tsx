@@ -1,20 +1,31 @@
 
 import React, { useState, useEffect } from 'react';
-import { TransactionType, PaymentMethod, Transaction } from '../types';
-import { CATEGORIES, PAYMENT_METHODS } from '../constants';
+import { TransactionType, PaymentMethod, Transaction, Category, StockItem, Customer } from '../types';
+import { PAID_METHODS, PAYMENT_METHODS } from '../constants';
+import { SETTLEMENT_CATEGORY, SUPPLIER_PAYMENT_CATEGORY, categoriesFor } from '../services/categories';
+import { stockItemForCategory } from '../services/inventory';
+import { describeBill } from '../services/menu';
+import { isSupplierBill } from '../services/suppliers';
 
 interface TransactionFormProps {
-  onAdd: (transaction: Transaction) => void;
+  onAdd: (transaction: Transaction) => boolean; // False when the save was cancelled
+  categories: Category[];
+  stockItems: StockItem[];
+  customers: Customer[];
   editingTransaction?: Transaction | null;
   onCancelEdit?: () => void;
+  salesOnly?: boolean; // Cashier mode: no expense entries
 }
 
-export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, editingTransaction, onCancelEdit }) => {
+export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, categories, stockItems, customers, editingTransaction, onCancelEdit, salesOnly }) => {
   const [type, setType] = useState<TransactionType>(TransactionType.INCOME);
   const [amount, setAmount] = useState('');
-  const [category, setCategory] = useState(CATEGORIES.INCOME[0]);
+  const firstCategory = (t: TransactionType) => categoriesFor(categories, t)[0]?.name || '';
+  const [category, setCategory] = useState(firstCategory(TransactionType.INCOME));
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('CASH');
   const [notes, setNotes] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [customerId, setCustomerId] = useState('');
 
   // Sync state if we are in "Edit Mode"
   useEffect(() => {
@@ -24,21 +35,47 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, editing
       setCategory(editingTransaction.category);
       setPaymentMethod(editingTransaction.paymentMethod);
       setNotes(editingTransaction.notes || '');
+      setQuantity(editingTransaction.quantity?.toString() || '');
+      setCustomerId(editingTransaction.customerId || '');
     } else {
       // Reset to defaults for fresh entry
       setType(TransactionType.INCOME);
       setAmount('');
-      setCategory(CATEGORIES.INCOME[0]);
+      setCategory(firstCategory(TransactionType.INCOME));
       setPaymentMethod('CASH');
       setNotes('');
+      setQuantity('');
+      setCustomerId('');
     }
   }, [editingTransaction]);
 
+  // An entry being edited keeps its category even if it has since been archived
+  // Settlements and supplier payments are recorded from the Khata tab, not typed in here
+  const options = categoriesFor(categories, type).map(c => c.name).filter(c => c !== SETTLEMENT_CATEGORY && c !== SUPPLIER_PAYMENT_CATEGORY);
+  if (category && !options.includes(category)) options.push(category);
+
+  // Purchases of tracked raw materials also record the quantity bought
+  const stockItem = type === TransactionType.EXPENSE ? stockItemForCategory(stockItems, categories, category) : undefined;
+
+  // Only sales can go on credit here; supplier bills stay on credit until paid from the Khata tab
+  const isSettlement = category === SETTLEMENT_CATEGORY;
+  const isBill = !!editingTransaction && isSupplierBill(editingTransaction);
+  const methods = isBill
+    ? PAYMENT_METHODS.filter(pm => pm.id === 'CREDIT')
+    : type === TransactionType.INCOME && !isSettlement ? PAYMENT_METHODS : PAID_METHODS;
+  const isCreditSale = type === TransactionType.INCOME && paymentMethod === 'CREDIT';
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!amount || isNaN(Number(amount))) return;
+    if (!amount || isNaN(Number(amount)) || !category) return;
+    if (isCreditSale && !customerId) {
+      alert("Pick the customer this sale is on credit to.");
+      return;
+    }
 
+    // Spread the original so links such as staffId and payroll detail survive an edit
     const transactionData: Transaction = {
+      ...editingTransaction,
       id: editingTransaction ? editingTransaction.id : Date.now().toString(),
       date: editingTransaction ? editingTransaction.date : new Date().toISOString(),
       amount: Number(amount),
@@ -46,15 +83,19 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, editing
       type,
       paymentMethod,
       notes,
-      staffId: editingTransaction?.staffId
+      stockItemId: stockItem && Number(quantity) > 0 ? stockItem.id : undefined,
+      quantity: stockItem && Number(quantity) > 0 ? Number(quantity) : undefined,
+      customerId: isCreditSale ? customerId : isSettlement ? editingTransaction?.customerId : undefined
     };
 
-    onAdd(transactionData);
-    
+    // Keep what was typed when the save is cancelled (e.g. an overspend warning was declined)
+    if (!onAdd(transactionData)) return;
+
     // Clear form if not editing
     if (!editingTransaction) {
       setAmount('');
       setNotes('');
+      setQuantity('');
     }
   };
 
@@ -76,22 +117,22 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, editing
         )}
       </div>
       
-      <div className="flex gap-2 mb-4 bg-stone-100 p-1 rounded-lg">
+      {!salesOnly && <div className="flex gap-2 mb-4 bg-stone-100 p-1 rounded-lg">
         <button
           type="button"
-          onClick={() => { setType(TransactionType.INCOME); setCategory(CATEGORIES.INCOME[0]); }}
+          onClick={() => { setType(TransactionType.INCOME); setCategory(firstCategory(TransactionType.INCOME)); }}
           className={`flex-1 py-2 rounded-md font-medium transition-all ${type === TransactionType.INCOME ? 'bg-white shadow-sm text-green-600' : 'text-stone-500'}`}
         >
           Income
         </button>
         <button
           type="button"
-          onClick={() => { setType(TransactionType.EXPENSE); setCategory(CATEGORIES.EXPENSE[0]); }}
+          onClick={() => { setType(TransactionType.EXPENSE); setCategory(firstCategory(TransactionType.EXPENSE)); if (paymentMethod === 'CREDIT' && !isBill) setPaymentMethod('CASH'); }}
           className={`flex-1 py-2 rounded-md font-medium transition-all ${type === TransactionType.EXPENSE ? 'bg-white shadow-sm text-red-600' : 'text-stone-500'}`}
         >
           Expense
         </button>
-      </div>
+      </div>}
 
       <div className="space-y-4">
         <div>
@@ -113,17 +154,35 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, editing
             onChange={(e) => setCategory(e.target.value)}
             className="w-full p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none"
           >
-            {type === TransactionType.INCOME 
-              ? CATEGORIES.INCOME.map(c => <option key={c} value={c}>{c}</option>)
-              : CATEGORIES.EXPENSE.map(c => <option key={c} value={c}>{c}</option>)
-            }
+            {options.map(c => <option key={c} value={c}>{c}</option>)}
           </select>
         </div>
 
+        {editingTransaction?.lineItems && (
+          <p className="text-[10px] font-bold text-stone-400">Quick Sale bill: {describeBill(editingTransaction.lineItems)}. Item-wise reports keep the original items.</p>
+        )}
+
+        {stockItem && (
+          <div>
+            <label className="block text-xs font-semibold text-stone-500 uppercase mb-1">Quantity ({stockItem.unit})</label>
+            <input
+              type="number"
+              step="any"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className="w-full p-3 bg-stone-50 border border-stone-200 rounded-xl outline-none"
+              placeholder={`How much ${stockItem.name.toLowerCase()} was bought?`}
+            />
+            {Number(quantity) > 0 && Number(amount) > 0 && (
+              <p className="text-[10px] font-bold text-stone-400 mt-1">₹{(Number(amount) / Number(quantity)).toFixed(2)} per {stockItem.unit}</p>
+            )}
+          </div>
+        )}
+
         <div>
           <label className="block text-xs font-semibold text-stone-500 uppercase mb-1">Payment Method</label>
           <div className="grid grid-cols-2 gap-2">
-            {PAYMENT_METHODS.map(pm => (
+            {methods.map(pm => (
               <button
                 key={pm.id}
                 type="button"
@@ -134,6 +193,20 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onAdd, editing
               </button>
             ))}
           </div>
+          {isCreditSale && (
+            customers.length ? (
+              <select
+                value={customerId}
+                onChange={(e) => setCustomerId(e.target.value)}
+                className="w-full mt-2 p-3 bg-rose-50 border border-rose-200 rounded-xl outline-none text-sm"
+              >
+                <option value="">Customer…</option>
+                {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            ) : (
+              <p className="text-[10px] font-bold text-rose-600 mt-2">Add the customer on the Khata tab first.</p>
+            )
+          )}
         </div>
 
         <div>
@@ -0,0 +1,43 @@
+import React from 'react';
+import { AuditEntry } from '../types';
+import { ACTION_LABELS, changedFields } from '../services/audit';
+
+interface TransactionHistoryProps {
+  entries: AuditEntry[];
+}
+
+const ACTION_COLORS = {
+  CREATE: 'text-green-600',
+  UPDATE: 'text-amber-600',
+  DELETE: 'text-red-500',
+  RESTORE: 'text-blue-600'
+};
+
+export const TransactionHistory: React.FC<TransactionHistoryProps> = ({ entries }) => {
+  if (!entries.length) {
+    return <p className="text-[10px] font-bold text-stone-400">No changes recorded. Entries made before the change log existed have no history.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map(e => {
+        const changes = e.action === 'UPDATE' && e.before && e.after ? changedFields(e.before, e.after) : [];
+        return (
+          <div key={e.id} className="text-xs">
+            <p className="font-bold text-stone-700">
+              <span className={`font-black uppercase text-[10px] ${ACTION_COLORS[e.action]}`}>{ACTION_LABELS[e.action]}</span>
+              <span className="text-stone-400 text-[10px] ml-2">{new Date(e.at).toLocaleString()} • {e.by === 'AUTO' ? 'Recurring' : e.by.toLowerCase()}</span>
+            </p>
+            {e.action === 'CREATE' && e.after && <p className="text-[10px] text-stone-500 font-bold">₹{e.after.amount} • {e.after.category} • {e.after.paymentMethod}</p>}
+            {e.action === 'UPDATE' && !changes.length && <p className="text-[10px] text-stone-400 font-bold">No visible fields changed</p>}
+            {changes.map(c => (
+              <p key={c.label} className="text-[10px] font-bold text-stone-500">
+                {c.label}: <span className="line-through text-stone-400">{c.from}</span> → <span className="text-stone-800">{c.to}</span>
+              </p>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React, { useEffect } from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const UNDO_WINDOW_MS = 8000;
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  // Restarts whenever a newer change replaces the message
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, UNDO_WINDOW_MS);
+    return () => window.clearTimeout(timer);
+  }, [message]);
+
+  return (
+    <div className="fixed bottom-28 left-0 right-0 max-w-md mx-auto px-4 z-50 animate-in slide-in-from-bottom-4 duration-300">
+      <div className="bg-stone-900 text-white rounded-2xl shadow-2xl px-5 py-4 flex items-center justify-between gap-4">
+        <p className="text-xs font-bold">{message}</p>
+        <button onClick={onUndo} className="text-[10px] font-black uppercase tracking-widest text-amber-400">Undo</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  itemKey: (item: T) => string;
+  estimateHeight: (item: T) => number;
+  renderItem: (item: T) => React.ReactNode;
+  overscanPx?: number;
+}
+
+// Renders only the rows near the viewport. The whole page scrolls, so the visible window is
+// worked out against the browser window; each row's real height is measured after it renders
+// and cached by key, so rows may grow (e.g. an opened history panel). Rows must not use margins.
+export const VirtualList = <T,>({ items, itemKey, estimateHeight, renderItem, overscanPx = 800 }: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight });
+  const [, setMeasured] = useState(0);
+
+  // Re-run when the items change too: filters above the list can move it without a scroll
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        if (containerRef.current) setViewport({ top: -containerRef.current.getBoundingClientRect().top, height: window.innerHeight });
+      });
+    };
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [items]);
+
+  const measure = (key: string, el: HTMLDivElement | null) => {
+    if (!el) return;
+    const h = el.offsetHeight;
+    if (h && heights.current.get(key) !== h) {
+      heights.current.set(key, h);
+      setMeasured(n => n + 1);
+    }
+  };
+
+  const offsets: number[] = [];
+  let total = 0;
+  items.forEach(item => {
+    offsets.push(total);
+    total += heights.current.get(itemKey(item)) ?? estimateHeight(item);
+  });
+  const bottom = (i: number) => i + 1 < items.length ? offsets[i + 1] : total;
+
+  const windowStart = viewport.top - overscanPx;
+  const windowEnd = viewport.top + viewport.height + overscanPx;
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (bottom(mid) <= windowStart) lo = mid + 1;
+    else hi = mid;
+  }
+  const start = lo;
+  let end = start;
+  while (end < items.length && offsets[end] < windowEnd) end++;
+
+  return (
+    <div ref={containerRef} style={{ paddingTop: start < items.length ? offsets[start] : total, paddingBottom: end < items.length ? total - offsets[end] : 0 }}>
+      {items.slice(start, end).map(item => {
+        const key = itemKey(item);
+        return <div key={key} ref={el => measure(key, el)}>{renderItem(item)}</div>;
+      })}
+    </div>
+  );
+};
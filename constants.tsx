@@ -1,18 +1,68 @@
 
 import React from 'react';
 
+// Seeded on first run; after that the shop manages its own list in Settings
 export const CATEGORIES = {
-  INCOME: ['Tea Sales', 'Snack Sales', 'Wholesale', 'Other'],
-  EXPENSE: ['Milk', 'Tea Powder', 'Sugar', 'Gas/Fuel', 'Rent', 'Staff - Weekly', 'Staff - Month End', 'Other']
+  INCOME: ['Tea Sales', 'Snack Sales', 'Wholesale', 'Other', 'Credit Collected'],
+  EXPENSE: ['Milk', 'Tea Powder', 'Sugar', 'Gas/Fuel', 'Rent', 'Staff - Weekly', 'Staff - Month End', 'Staff - Advance', 'Other', 'Supplier Payment', 'Staff - Salary']
 };
 
 export const PAYMENT_METHODS = [
   { id: 'CASH', label: 'Cash', color: 'bg-green-100 text-green-700' },
   { id: 'GPAY', label: 'Google Pay', color: 'bg-blue-100 text-blue-700' },
   { id: 'PHONEPE', label: 'PhonePe', color: 'bg-purple-100 text-purple-700' },
-  { id: 'OTHER', label: 'Other UPI', color: 'bg-gray-100 text-gray-700' }
+  { id: 'OTHER', label: 'Other UPI', color: 'bg-gray-100 text-gray-700' },
+  { id: 'CREDIT', label: 'Credit (Udhaar)', color: 'bg-rose-100 text-rose-700' }
 ];
 
+// Methods where money actually changes hands; CREDIT only creates a receivable
+export const PAID_METHODS = PAYMENT_METHODS.filter(pm => pm.id !== 'CREDIT');
+
+// Chart colours, so a method looks the same on every chart
+export const METHOD_COLORS: Record<string, string> = {
+  CASH: '#10b981',
+  GPAY: '#3B82F6',
+  PHONEPE: '#8B5CF6',
+  OTHER: '#6B7280',
+  CREDIT: '#F43F5E'
+};
+
+export const PAY_FREQUENCIES = [
+  { id: 'DAILY', label: 'Daily', unit: 'day' },
+  { id: 'WEEKLY', label: 'Weekly', unit: 'wk' },
+  { id: 'MONTHLY', label: 'Monthly', unit: 'mo' }
+];
+
+export const RECURRENCE_RULES = [
+  { id: 'DAILY', label: 'Every day' },
+  { id: 'WEEKLY', label: 'Every week' },
+  { id: 'MONTHLY', label: 'Every month' }
+];
+
+export const HOLD_RELEASES = [
+  { id: 'MONTH_END', label: 'At month end' },
+  { id: 'ON_DEMAND', label: 'On request' }
+];
+
+// payFactor: share of a day's wage earned. Approved leave is paid, absence is not.
+export const ATTENDANCE_STATUSES = [
+  { id: 'PRESENT', label: 'P', name: 'Present', payFactor: 1, color: 'bg-green-100 text-green-700' },
+  { id: 'HALF_DAY', label: '½', name: 'Half Day', payFactor: 0.5, color: 'bg-amber-100 text-amber-700' },
+  { id: 'ABSENT', label: 'A', name: 'Absent', payFactor: 0, color: 'bg-red-100 text-red-700' },
+  { id: 'LEAVE', label: 'L', name: 'Leave', payFactor: 1, color: 'bg-blue-100 text-blue-700' }
+];
+
+// Recipes are entered in the smaller unit (80 ml of milk) and stored in the stock unit
+export const STOCK_UNITS = [
+  { id: 'L', label: 'Litres', recipeUnit: 'ml', recipeFactor: 1000 },
+  { id: 'KG', label: 'Kg', recipeUnit: 'g', recipeFactor: 1000 },
+  { id: 'PCS', label: 'Pieces', recipeUnit: 'pcs', recipeFactor: 1 }
+];
+
+export const SHIFT_HOURS = 8;
+
+export const DENOMINATIONS = [500, 200, 100, 50, 20, 10, 5, 2, 1];
+
 export const ICONS = {
   Plus: () => (
     <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M5 12h14"/><path d="M12 5v14"/></svg>
@@ -0,0 +1,128 @@
+import { Transaction } from '../types';
+import { addMonths, fromDateKey, getBusinessDateKey, monthLabel } from './dateUtils';
+import { countsAsSale } from './customers';
+import { countsAsExpense } from './suppliers';
+
+// Month-level analytics for the Reports tab. Sales and expenses follow the same rules as the
+// dashboard totals: credit sales count when made, settlements and supplier bills do not double count.
+
+export interface PnlLine {
+  category: string;
+  amount: number;
+  share: number; // Percent of the section total
+}
+
+export interface MonthlyPnl {
+  monthKey: string;
+  income: PnlLine[];
+  expenses: PnlLine[];
+  totalIncome: number;
+  totalExpenses: number;
+  net: number;
+  margin: number; // Net as a percent of income
+}
+
+export interface MonthComparisonRow {
+  label: string;
+  current: number;
+  previous: number;
+  change: number | null; // Percent; null when there is nothing to compare against
+  higherIsBetter: boolean;
+  money: boolean; // False for counts such as bills
+}
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const monthOf = (t: Transaction, cutoffHour: number) => getBusinessDateKey(t.date, cutoffHour).slice(0, 7);
+
+const percent = (part: number, whole: number) => whole ? Math.round((part / whole) * 1000) / 10 : 0;
+
+export const pctChange = (current: number, previous: number) =>
+  previous ? Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10 : null;
+
+const toLines = (totals: Record<string, number>, total: number): PnlLine[] =>
+  Object.entries(totals)
+    .map(([category, amount]) => ({ category, amount, share: percent(amount, total) }))
+    .sort((a, b) => b.amount - a.amount);
+
+export const monthlyPnl = (transactions: Transaction[], monthKey: string, cutoffHour = 0): MonthlyPnl => {
+  const income: Record<string, number> = {};
+  const expenses: Record<string, number> = {};
+  transactions.forEach(t => {
+    if (monthOf(t, cutoffHour) !== monthKey) return;
+    if (countsAsSale(t)) income[t.category] = (income[t.category] || 0) + t.amount;
+    else if (countsAsExpense(t)) expenses[t.category] = (expenses[t.category] || 0) + t.amount;
+  });
+  const totalIncome = Object.values(income).reduce((sum, v) => sum + v, 0);
+  const totalExpenses = Object.values(expenses).reduce((sum, v) => sum + v, 0);
+  return {
+    monthKey,
+    income: toLines(income, totalIncome),
+    expenses: toLines(expenses, totalExpenses),
+    totalIncome,
+    totalExpenses,
+    net: totalIncome - totalExpenses,
+    margin: percent(totalIncome - totalExpenses, totalIncome)
+  };
+};
+
+export const monthOverMonth = (transactions: Transaction[], monthKey: string, cutoffHour = 0): MonthComparisonRow[] => {
+  const previousKey = addMonths(monthKey, -1);
+  const stats = (key: string) => {
+    const sales = transactions.filter(t => countsAsSale(t) && monthOf(t, cutoffHour) === key);
+    const pnl = monthlyPnl(transactions, key, cutoffHour);
+    return {
+      sales: pnl.totalIncome,
+      expenses: pnl.totalExpenses,
+      net: pnl.net,
+      bills: sales.length,
+      averageBill: sales.length ? Math.round(pnl.totalIncome / sales.length) : 0
+    };
+  };
+  const current = stats(monthKey);
+  const previous = stats(previousKey);
+  const row = (label: string, key: keyof typeof current, higherIsBetter = true, money = true): MonthComparisonRow => ({
+    label,
+    current: current[key],
+    previous: previous[key],
+    change: pctChange(current[key], previous[key]),
+    higherIsBetter,
+    money
+  });
+  return [
+    row('Sales', 'sales'),
+    row('Expenses', 'expenses', false),
+    row('Net Profit', 'net'),
+    row('Bills', 'bills', true, false),
+    row('Avg Bill', 'averageBill')
+  ];
+};
+
+// Sales by payment method for each of the last `months` months, oldest first, ready for a stacked bar chart
+export const paymentMixByMonth = (transactions: Transaction[], endMonthKey: string, months = 6, cutoffHour = 0) => {
+  const keys = Array.from({ length: months }, (_, i) => addMonths(endMonthKey, i - months + 1));
+  const totals = keys.map(() => ({} as Record<string, number>));
+  transactions.forEach(t => {
+    if (!countsAsSale(t)) return;
+    const index = keys.indexOf(monthOf(t, cutoffHour));
+    if (index >= 0) totals[index][t.paymentMethod] = (totals[index][t.paymentMethod] || 0) + t.amount;
+  });
+  return keys.map((key, i) => ({ month: monthLabel(key).slice(0, 3), ...totals[i] }));
+};
+
+// Sales for the month by weekday (Mon first) and clock hour. The weekday follows the business
+// day, so a 1 AM sale after a late Friday counts as Friday; the hour is the time on the receipt.
+export const salesHeatmap = (transactions: Transaction[], monthKey: string, cutoffHour = 0) => {
+  const grid = WEEKDAY_LABELS.map(() => Array.from({ length: 24 }, () => 0));
+  transactions.forEach(t => {
+    if (!countsAsSale(t)) return;
+    const dateKey = getBusinessDateKey(t.date, cutoffHour);
+    if (dateKey.slice(0, 7) !== monthKey) return;
+    const weekday = (fromDateKey(dateKey).getDay() + 6) % 7;
+    grid[weekday][new Date(t.date).getHours()] += t.amount;
+  });
+  const byHour = grid[0].map((_, h) => grid.reduce((sum, row) => sum + row[h], 0));
+  const byWeekday = grid.map(row => row.reduce((sum, v) => sum + v, 0));
+  const max = Math.max(0, ...grid.flat());
+  return { grid, byHour, byWeekday, max };
+};
@@ -0,0 +1,93 @@
+import { AuditAction, AuditActor, AuditEntry, Transaction } from '../types';
+import { PAYMENT_METHODS } from '../constants';
+
+// Deleting an entry moves it out of the ledger and into the change log rather than
+// flagging it in place, so every total and report keeps reading the live ledger as-is.
+// "Recently deleted" is read back from the log's DELETE snapshots.
+
+export const RECENTLY_DELETED_DAYS = 30;
+
+export interface FieldChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+const AUDITED_FIELDS: { key: keyof Transaction; label: string }[] = [
+  { key: 'amount', label: 'Amount' },
+  { key: 'type', label: 'Type' },
+  { key: 'category', label: 'Category' },
+  { key: 'paymentMethod', label: 'Paid by' },
+  { key: 'date', label: 'Date' },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'notes', label: 'Notes' }
+];
+
+export const ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Added',
+  UPDATE: 'Edited',
+  DELETE: 'Deleted',
+  RESTORE: 'Restored'
+};
+
+export const auditEntry = (action: AuditAction, by: AuditActor, before?: Transaction, after?: Transaction): AuditEntry => {
+  const t = (after || before)!;
+  return {
+    id: `audit-${Date.now()}-${t.id}`,
+    transactionId: t.id,
+    action,
+    at: new Date().toISOString(),
+    by,
+    before,
+    after,
+    outletId: t.outletId
+  };
+};
+
+// One entry per transaction that a wholesale ledger swap (a restore, a category rename or
+// merge) added, removed or changed, so those edits show up in history like any other
+export const ledgerChanges = (before: Transaction[], after: Transaction[], by: AuditActor): AuditEntry[] => {
+  const previous = new Map(before.map(t => [t.id, t]));
+  const kept = new Set(after.map(t => t.id));
+  const entries: AuditEntry[] = [];
+  after.forEach(t => {
+    const was = previous.get(t.id);
+    if (!was) entries.push(auditEntry('CREATE', by, undefined, t));
+    else if (was !== t && JSON.stringify(was) !== JSON.stringify(t)) entries.push(auditEntry('UPDATE', by, was, t));
+  });
+  before.forEach(t => {
+    if (!kept.has(t.id)) entries.push(auditEntry('DELETE', by, t));
+  });
+  return entries;
+};
+
+const display = (key: keyof Transaction, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (key === 'amount') return `₹${value}`;
+  if (key === 'date') return new Date(value as string).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+  if (key === 'paymentMethod') return PAYMENT_METHODS.find(pm => pm.id === value)?.label || String(value);
+  return String(value);
+};
+
+export const changedFields = (before: Transaction, after: Transaction): FieldChange[] =>
+  AUDITED_FIELDS
+    .filter(f => (before[f.key] ?? '') !== (after[f.key] ?? ''))
+    .map(f => ({ label: f.label, from: display(f.key, before[f.key]), to: display(f.key, after[f.key]) }));
+
+// Oldest first, so the panel reads as the entry's story
+export const historyFor = (log: AuditEntry[], transactionId: string) =>
+  log.filter(e => e.transactionId === transactionId).sort((a, b) => a.at.localeCompare(b.at));
+
+// Entries whose latest change is a delete made within the window, newest first
+export const recentlyDeleted = (log: AuditEntry[], transactions: Transaction[], now = new Date()) => {
+  const live = new Set(transactions.map(t => t.id));
+  const since = new Date(now.getTime() - RECENTLY_DELETED_DAYS * 86400000).toISOString();
+  const latest = new Map<string, AuditEntry>();
+  log.forEach(e => {
+    const prev = latest.get(e.transactionId);
+    if (!prev || e.at >= prev.at) latest.set(e.transactionId, e);
+  });
+  return Array.from(latest.values())
+    .filter(e => e.action === 'DELETE' && e.before && e.at >= since && !live.has(e.transactionId))
+    .sort((a, b) => b.at.localeCompare(a.at));
+};
@@ -0,0 +1,196 @@
+import { UserProfile } from '../types';
+import { COLLECTION_STORES, CollectionStore, CollectionTypes, DB_VERSION, upgradeRecords } from './storage';
+
+// Single-file backups: versioned JSON with a SHA-256 checksum over the data,
+// optionally wrapped in an AES-GCM envelope keyed from a passphrase (PBKDF2).
+
+const APP_TAG = 'chai-insights-backup';
+const FORMAT_VERSION = 1;
+const PBKDF2_ITERATIONS = 150000;
+
+export type BackupData = { user: UserProfile } & { [K in CollectionStore]: CollectionTypes[K][] };
+
+export interface BackupFile {
+  app: typeof APP_TAG;
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  checksum: string;
+  data: BackupData;
+}
+
+interface EncryptedBackup {
+  app: typeof APP_TAG;
+  formatVersion: number;
+  encrypted: true;
+  salt: string;
+  iv: string;
+  payload: string;
+}
+
+export interface BackupPreview {
+  exportedAt: string;
+  businessName: string;
+  collections: { store: CollectionStore; count: number; from?: string; to?: string }[];
+}
+
+export type RestoreMode = 'REPLACE' | 'MERGE';
+
+const encoder = new TextEncoder();
+
+const toBase64 = (buf: ArrayBuffer | Uint8Array) => {
+  const bytes = buf instanceof Uint8Array ? buf : new Uint8Array(buf);
+  let bin = '';
+  bytes.forEach(b => { bin += String.fromCharCode(b); });
+  return btoa(bin);
+};
+
+const fromBase64 = (b64: string) => Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const base = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    base,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const createBackup = async (data: BackupData, passphrase?: string) => {
+  const file: BackupFile = {
+    app: APP_TAG,
+    formatVersion: FORMAT_VERSION,
+    schemaVersion: DB_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: await sha256(JSON.stringify(data)),
+    data
+  };
+  let body = JSON.stringify(file);
+
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(body));
+    const envelope: EncryptedBackup = { app: APP_TAG, formatVersion: FORMAT_VERSION, encrypted: true, salt: toBase64(salt), iv: toBase64(iv), payload: toBase64(cipher) };
+    body = JSON.stringify(envelope);
+  }
+  return new Blob([body], { type: 'application/json' });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEncrypted = (value: Record<string, unknown>): value is Record<string, unknown> & EncryptedBackup =>
+  value.encrypted === true && typeof value.salt === 'string' && typeof value.iv === 'string' && typeof value.payload === 'string';
+
+const isRecordList = (value: unknown): value is { id: string }[] =>
+  Array.isArray(value) && value.every(item => isRecord(item) && typeof item.id === 'string');
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+export const isEncryptedBackup = (text: string) => {
+  const parsed = parseJson(text);
+  return isRecord(parsed) && parsed.encrypted === true;
+};
+
+const checkVersions = (value: Record<string, unknown>) => {
+  if (value.app !== APP_TAG) throw new Error('This is not a ChaiInsights backup file.');
+  if (typeof value.formatVersion !== 'number' || value.formatVersion > FORMAT_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update the app first.');
+  }
+};
+
+const upgradeSection = <K extends CollectionStore>(data: BackupData, store: K, fromVersion: number) => {
+  Object.assign(data, { [store]: upgradeRecords(store, data[store] as CollectionTypes[K][], fromVersion) });
+};
+
+export const readBackup = async (text: string, passphrase?: string): Promise<BackupFile> => {
+  let parsed = parseJson(text);
+  if (!isRecord(parsed)) throw new Error('This is not a ChaiInsights backup file.');
+  checkVersions(parsed);
+
+  if (isEncrypted(parsed)) {
+    if (!passphrase) throw new Error('This backup is encrypted. Enter its passphrase.');
+    try {
+      const key = await deriveKey(passphrase, fromBase64(parsed.salt));
+      const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(parsed.iv) }, key, fromBase64(parsed.payload));
+      parsed = parseJson(new TextDecoder().decode(plain));
+    } catch {
+      throw new Error('Wrong passphrase, or the file is damaged.');
+    }
+    if (!isRecord(parsed)) throw new Error('Wrong passphrase, or the file is damaged.');
+    checkVersions(parsed);
+  } else if (parsed.encrypted !== undefined) {
+    throw new Error('This backup file is damaged.');
+  }
+
+  // Restoring a newer schema into this app would silently drop whatever it does not know about
+  if (typeof parsed.schemaVersion !== 'number' || parsed.schemaVersion > DB_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update the app first.');
+  }
+  const data = parsed.data;
+  if (!isRecord(data) || !isRecord(data.user)) throw new Error('The backup has no shop data.');
+  if (typeof parsed.checksum !== 'string' || typeof parsed.exportedAt !== 'string') throw new Error('This backup file is damaged.');
+  if (await sha256(JSON.stringify(data)) !== parsed.checksum) throw new Error('Checksum mismatch: the backup file has been modified or is corrupted.');
+
+  const sections: Partial<Record<CollectionStore, unknown>> = data;
+  COLLECTION_STORES.forEach(store => {
+    const items = sections[store];
+    if (items === undefined) {
+      // Older backups simply lack stores added later
+      sections[store] = [];
+    } else if (!isRecordList(items)) {
+      throw new Error(`The "${store}" section of the backup is invalid.`);
+    }
+  });
+
+  // Every section has now been checked; the records themselves are trusted as the app wrote them
+  const checked = data as unknown as BackupData;
+  const schemaVersion = parsed.schemaVersion;
+  COLLECTION_STORES.forEach(store => upgradeSection(checked, store, schemaVersion));
+  return {
+    app: APP_TAG,
+    formatVersion: parsed.formatVersion as number,
+    schemaVersion,
+    exportedAt: parsed.exportedAt,
+    checksum: parsed.checksum,
+    data: checked
+  };
+};
+
+const dateOf = (item: object): string | undefined => {
+  const dated = item as { date?: string; joinedDate?: string; at?: string };
+  return dated.date || dated.joinedDate || dated.at;
+};
+
+export const previewBackup = (file: BackupFile): BackupPreview => ({
+  exportedAt: file.exportedAt,
+  businessName: file.data.user.businessName,
+  collections: COLLECTION_STORES.map(store => {
+    const items: object[] = file.data[store];
+    const dates = items.map(dateOf).filter((d): d is string => !!d).sort();
+    return { store, count: items.length, from: dates[0], to: dates[dates.length - 1] };
+  })
+});
+
+// Merge keeps the record already on this device when both sides share an id
+export const mergeCollection = <T extends { id: string }>(current: T[], incoming: T[], mode: RestoreMode) => {
+  if (mode === 'REPLACE') return { items: incoming, added: incoming.length, skipped: 0 };
+  const existing = new Set(current.map(item => item.id));
+  const fresh = incoming.filter(item => !existing.has(item.id));
+  return { items: [...current, ...fresh], added: fresh.length, skipped: incoming.length - fresh.length };
+};
@@ -0,0 +1,61 @@
+import { Category, Transaction, TransactionType } from '../types';
+import { getBusinessDateKey } from './dateUtils';
+import { categoriesFor } from './categories';
+import { countsAsExpense } from './suppliers';
+
+export interface BudgetLine {
+  category: string;
+  budget: number; // 0 when the category has no budget set
+  spent: number;
+  remaining: number;
+  percent: number;
+}
+
+const monthOf = (t: Transaction, cutoffHour: number) => getBusinessDateKey(t.date, cutoffHour).slice(0, 7);
+
+export const spendByCategory = (transactions: Transaction[], monthKey: string, cutoffHour = 0) =>
+  transactions.reduce((acc, t) => {
+    if (countsAsExpense(t) && monthOf(t, cutoffHour) === monthKey) {
+      acc[t.category] = (acc[t.category] || 0) + t.amount;
+    }
+    return acc;
+  }, {} as Record<string, number>);
+
+const toLine = (category: string, budget: number, spent: number): BudgetLine => ({
+  category,
+  budget,
+  spent,
+  remaining: budget - spent,
+  percent: budget > 0 ? Math.round((spent / budget) * 100) : 0
+});
+
+// Budgeted categories in list order; with includeUnbudgeted, any other category with spend follows
+export const budgetLines = (categories: Category[], transactions: Transaction[], monthKey: string, cutoffHour = 0, includeUnbudgeted = false) => {
+  const spent = spendByCategory(transactions, monthKey, cutoffHour);
+  const listed = categoriesFor(categories, TransactionType.EXPENSE, true);
+  const lines = listed
+    .filter(c => c.monthlyBudget || (includeUnbudgeted && spent[c.name]))
+    .map(c => toLine(c.name, c.monthlyBudget || 0, spent[c.name] || 0));
+  if (includeUnbudgeted) {
+    Object.keys(spent)
+      .filter(name => !listed.some(c => c.name === name))
+      .forEach(name => lines.push(toLine(name, 0, spent[name])));
+  }
+  return lines;
+};
+
+// Message for an entry that would take its category past the month's budget, or null.
+// `replacing` is the original when an existing entry is being edited.
+export const overspendWarning = (categories: Category[], transactions: Transaction[], t: Transaction, cutoffHour = 0, replacing?: Transaction) => {
+  if (t.type !== TransactionType.EXPENSE) return null;
+  const budget = categories.find(c => c.type === TransactionType.EXPENSE && c.name === t.category)?.monthlyBudget;
+  if (!budget) return null;
+  const monthKey = monthOf(t, cutoffHour);
+  const others = transactions.filter(x => x.id !== replacing?.id && x.id !== t.id);
+  const total = (spendByCategory(others, monthKey, cutoffHour)[t.category] || 0) + t.amount;
+  if (total <= budget) return null;
+  return `${t.category} will reach ₹${total.toLocaleString('en-IN')} against a ₹${budget.toLocaleString('en-IN')} budget for the month (₹${(total - budget).toLocaleString('en-IN')} over).`;
+};
+
+export const setMonthlyBudget = (categories: Category[], id: string, amount: number) =>
+  categories.map(c => c.id === id ? { ...c, monthlyBudget: amount > 0 ? amount : undefined } : c);
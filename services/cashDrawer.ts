@@ -0,0 +1,47 @@
+import { DayClose, PaymentMethod, Transaction, TransactionType, UpiCheck } from '../types';
+import { getBusinessDateKey } from './dateUtils';
+
+export const transactionsForDay = (transactions: Transaction[], dateKey: string, cutoffHour = 0) =>
+  transactions.filter(t => getBusinessDateKey(t.date, cutoffHour) === dateKey);
+
+// Net movement per payment method: income in, expenses (incl. staff payouts) out
+export const netByMethod = (transactions: Transaction[]) =>
+  transactions.reduce((acc, t) => {
+    const sign = t.type === TransactionType.INCOME ? 1 : -1;
+    acc[t.paymentMethod] = (acc[t.paymentMethod] || 0) + sign * t.amount;
+    return acc;
+  }, {} as Partial<Record<PaymentMethod, number>>);
+
+export const expectedCash = (dayTransactions: Transaction[], openingFloat: number) =>
+  openingFloat + (netByMethod(dayTransactions).CASH || 0);
+
+export const countDenominations = (denominations: Record<string, number>) =>
+  Object.entries(denominations).reduce((sum, [value, count]) => sum + Number(value) * (count || 0), 0);
+
+export const buildUpiChecks = (dayTransactions: Transaction[]): UpiCheck[] => {
+  const net = netByMethod(dayTransactions);
+  return (['GPAY', 'PHONEPE', 'OTHER'] as PaymentMethod[]).map(method => ({
+    method,
+    expected: net[method] || 0,
+    matched: false
+  }));
+};
+
+// A reopened close stays on record but no longer counts as closing its day
+export const findDayClose = (dayCloses: DayClose[], dateKey: string) =>
+  dayCloses.find(c => c.date === dateKey && !c.reopenedAt);
+
+// Every close is saved under its own id, so a day can be closed, reopened and closed again
+export const reopenDayClose = (c: DayClose): DayClose =>
+  ({ ...c, id: `${c.id}-reopened-${Date.now()}`, reopenedAt: new Date().toISOString() });
+
+export const isTransactionLocked = (t: Transaction, dayCloses: DayClose[], cutoffHour = 0) =>
+  !!findDayClose(dayCloses, getBusinessDateKey(t.date, cutoffHour));
+
+// Carry forward what was physically left in the drawer at the last close
+export const suggestedOpeningFloat = (dayCloses: DayClose[], dateKey: string) => {
+  const previous = dayCloses
+    .filter(c => c.date < dateKey && !c.reopenedAt)
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+  return previous ? previous.countedCash : 0;
+};
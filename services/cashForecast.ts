@@ -0,0 +1,219 @@
+import { CashBalance, DayClose, RecurringExpense, StaffMember, Supplier, Transaction, TransactionType } from '../types';
+import { addDays, daysBetween, daysInMonth, getBusinessDateKey } from './dateUtils';
+import { grossPerPayout, splitPayout } from './payroll';
+import { nextDueDate } from './recurring';
+import { payablesList } from './suppliers';
+
+// 30-day cash projection: average takings in, then day-to-day spending, regular bills seen in
+// the ledger, recurring schedules, supplier bills and payroll (including held pay released at
+// month end) out. "Cash" here is all money the shop can spend, drawer and UPI alike.
+
+export const FORECAST_DAYS = 30;
+export const DEFAULT_SAFETY_THRESHOLD = 5000;
+const HISTORY_DAYS = 90;
+const SALES_WINDOW_DAYS = 28;
+
+export type ForecastKind = 'SPEND' | 'REGULAR' | 'SCHEDULED' | 'BILL' | 'PAYROLL' | 'HOLD';
+
+export interface ForecastItem {
+  label: string;
+  amount: number;
+  kind: ForecastKind;
+}
+
+export interface ForecastDay {
+  dateKey: string;
+  inflow: number;
+  outflow: number;
+  items: ForecastItem[]; // Everything except the flat daily spend and daily wages
+  closing: number;
+  belowThreshold: boolean;
+}
+
+export interface RegularExpense {
+  category: string;
+  amount: number; // Median of past payments
+  cadence: 'WEEKLY' | 'MONTHLY';
+  lastDate: string;
+}
+
+export interface CashForecast {
+  days: ForecastDay[];
+  averageDailySales: number;
+  dailySpend: number;
+  dailyPayroll: number; // Cash paid out each day to daily-wage staff
+  regular: RegularExpense[];
+  escrowLiability: number; // Held pay owed today
+  unscheduledHeld: number; // Held on request at the end of the window; not in the projection
+  lowest?: ForecastDay;
+  firstShortfall?: ForecastDay;
+}
+
+export interface OpeningCash {
+  amount: number;
+  source: 'ENTERED' | 'DAY_CLOSE';
+  since: string; // Business date (DAY_CLOSE) or timestamp (ENTERED) the amount was known at
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+const isMonthEnd = (key: string) => Number(key.slice(8)) === daysInMonth(key);
+
+// Money actually received: credit sales bring no cash until they are settled
+export const averageDailySales = (transactions: Transaction[], todayKey: string, cutoffHour = 0) => {
+  const since = addDays(todayKey, -SALES_WINDOW_DAYS);
+  let first = todayKey;
+  let total = 0;
+  transactions.forEach(t => {
+    if (t.type !== TransactionType.INCOME || t.paymentMethod === 'CREDIT') return;
+    const key = getBusinessDateKey(t.date, cutoffHour);
+    if (key < since || key >= todayKey) return;
+    total += t.amount;
+    if (key < first) first = key;
+  });
+  const days = Math.max(1, daysBetween(first, todayKey));
+  return Math.round(total / days);
+};
+
+// Money the shop has now: the owner's last entered balance, or failing that the last drawer
+// count (cash only), moved forward by every entry that actually moved money since. Unknown
+// when neither exists, so the forecast never starts a new shop from zero.
+export const currentOpeningCash = (balance: CashBalance | undefined, dayCloses: DayClose[], transactions: Transaction[], cutoffHour = 0): OpeningCash | undefined => {
+  const lastClose = dayCloses.filter(c => !c.reopenedAt).sort((a, b) => b.date.localeCompare(a.date))[0];
+  if (!balance && !lastClose) return undefined;
+  const after = balance
+    ? (t: Transaction) => t.date > balance.at
+    : (t: Transaction) => getBusinessDateKey(t.date, cutoffHour) > lastClose.date;
+  const amount = transactions.reduce((sum, t) => {
+    if (t.paymentMethod === 'CREDIT' || !after(t)) return sum;
+    return sum + (t.type === TransactionType.INCOME ? t.amount : -t.amount);
+  }, balance ? balance.amount : lastClose.countedCash);
+  return balance
+    ? { amount, source: 'ENTERED', since: balance.at }
+    : { amount, source: 'DAY_CLOSE', since: lastClose.date };
+};
+
+// Payroll, supplier bills and schedule postings are projected from their own records, so
+// only hand-entered expenses are mined. Categories paid every week or month are projected on
+// their cycle; anything more frequent or irregular is spread as an average daily spend.
+export const detectRegularExpenses = (transactions: Transaction[], todayKey: string, cutoffHour = 0) => {
+  const since = addDays(todayKey, -HISTORY_DAYS);
+  const byCategory: Record<string, { key: string; amount: number }[]> = {};
+  let first = todayKey;
+  transactions.forEach(t => {
+    if (t.type !== TransactionType.EXPENSE || t.paymentMethod === 'CREDIT') return;
+    if (t.staffId || t.payroll || t.recurringId || t.supplierId) return;
+    const key = getBusinessDateKey(t.date, cutoffHour);
+    if (key < since || key >= todayKey) return;
+    (byCategory[t.category] = byCategory[t.category] || []).push({ key, amount: t.amount });
+    if (key < first) first = key;
+  });
+
+  const regular: RegularExpense[] = [];
+  let spread = 0;
+  Object.entries(byCategory).forEach(([category, entries]) => {
+    entries.sort((a, b) => a.key.localeCompare(b.key));
+    const gaps = entries.slice(1).map((e, i) => daysBetween(entries[i].key, e.key));
+    const gap = gaps.length ? median(gaps) : 0;
+    const last = entries[entries.length - 1];
+    const cadence = gap >= 25 && gap <= 35 ? 'MONTHLY' : gap >= 5 && gap <= 9 ? 'WEEKLY' : null;
+    if (cadence) {
+      // A bill that has stopped coming is not projected
+      if (daysBetween(last.key, todayKey) <= gap * 2) regular.push({ category, amount: median(entries.map(e => e.amount)), cadence, lastDate: last.key });
+    } else if (gaps.length) {
+      spread += entries.reduce((sum, e) => sum + e.amount, 0);
+    }
+  });
+  return { regular, dailySpend: Math.round(spread / Math.max(1, daysBetween(first, todayKey))) };
+};
+
+const regularFallsOn = (r: RegularExpense, key: string) => {
+  const since = daysBetween(r.lastDate, key);
+  if (r.cadence === 'WEEKLY') return since > 0 && since % 7 === 0;
+  // Same day of month as last time, clamped to shorter months
+  const day = Math.min(Number(r.lastDate.slice(8)), daysInMonth(key));
+  return since >= 20 && Number(key.slice(8)) === day;
+};
+
+export const buildCashForecast = (
+  openingCash: number,
+  threshold: number,
+  transactions: Transaction[],
+  staff: StaffMember[],
+  schedules: RecurringExpense[],
+  suppliers: Supplier[],
+  todayKey: string,
+  cutoffHour = 0
+): CashForecast => {
+  const sales = averageDailySales(transactions, todayKey, cutoffHour);
+  const { regular, dailySpend } = detectRegularExpenses(transactions, todayKey, cutoffHour);
+  const keys = Array.from({ length: FORECAST_DAYS }, (_, i) => addDays(todayKey, i + 1));
+  const items: Record<string, ForecastItem[]> = Object.fromEntries(keys.map(k => [k, []]));
+  const firstKey = keys[0];
+  const lastKey = keys[keys.length - 1];
+  const add = (key: string, item: ForecastItem) => {
+    if (item.amount > 0) items[key < firstKey ? firstKey : key]?.push(item);
+  };
+
+  keys.forEach(key => regular.filter(r => regularFallsOn(r, key)).forEach(r => add(key, { label: r.category, amount: r.amount, kind: 'REGULAR' })));
+
+  schedules.filter(s => !s.paused).forEach(s => {
+    for (let due = nextDueDate(s, s.lastPostedDate && s.lastPostedDate > todayKey ? s.lastPostedDate : todayKey); due <= lastKey; due = nextDueDate(s, due)) {
+      add(due, { label: s.name, amount: s.amount, kind: 'SCHEDULED' });
+    }
+  });
+
+  // Overdue bills are assumed paid tomorrow
+  payablesList(suppliers, transactions, todayKey, cutoffHour).forEach(p => p.openBills.forEach(b => {
+    if (b.dueDate <= lastKey) add(b.dueDate, { label: `${p.supplier.name} bill`, amount: b.balance, kind: 'BILL' });
+  }));
+
+  let unscheduledHeld = 0;
+  let dailyPayroll = 0;
+  staff.forEach(s => {
+    const gross = grossPerPayout(s);
+    const { paidNow, held } = splitPayout(gross, s.payPolicy);
+    let escrow = s.totalHeldBalance;
+    // Weekly pay falls due a week after the last period paid; one already overdue is paid tomorrow
+    let nextWeekly = addDays(s.lastPaidThrough || todayKey, 7);
+    keys.forEach(key => {
+      const payday = s.payPolicy.frequency === 'DAILY' ? true
+        : s.payPolicy.frequency === 'MONTHLY' ? isMonthEnd(key)
+        : key >= nextWeekly;
+      if (payday && gross > 0) {
+        if (s.payPolicy.frequency === 'WEEKLY') nextWeekly = addDays(key, 7);
+        if (s.payPolicy.frequency !== 'DAILY') add(key, { label: `${s.name} pay`, amount: paidNow, kind: 'PAYROLL' });
+        escrow += held;
+      }
+      if (s.payPolicy.holdRelease === 'MONTH_END' && isMonthEnd(key) && escrow > 0) {
+        add(key, { label: `${s.name} held pay`, amount: escrow, kind: 'HOLD' });
+        escrow = 0;
+      }
+    });
+    if (s.payPolicy.holdRelease === 'ON_DEMAND') unscheduledHeld += escrow;
+    if (s.payPolicy.frequency === 'DAILY') dailyPayroll += paidNow;
+  });
+
+  let balance = openingCash;
+  const days = keys.map(dateKey => {
+    const outflow = dailySpend + dailyPayroll + items[dateKey].reduce((sum, i) => sum + i.amount, 0);
+    balance += sales - outflow;
+    return { dateKey, inflow: sales, outflow, items: items[dateKey], closing: balance, belowThreshold: balance < threshold };
+  });
+
+  return {
+    days,
+    averageDailySales: sales,
+    dailySpend,
+    dailyPayroll,
+    regular,
+    escrowLiability: staff.reduce((sum, s) => sum + s.totalHeldBalance, 0),
+    unscheduledHeld,
+    lowest: days.reduce<ForecastDay | undefined>((low, d) => !low || d.closing < low.closing ? d : low, undefined),
+    firstShortfall: days.find(d => d.belowThreshold)
+  };
+};
@@ -0,0 +1,159 @@
+import { Category, RecurringExpense, Transaction, TransactionType } from '../types';
+import { CATEGORIES } from '../constants';
+
+// Income category for payments received against customer credit; these are not sales
+export const SETTLEMENT_CATEGORY = 'Credit Collected';
+
+// Expense category for paying off supplier bills; the bill itself is the expense
+export const SUPPLIER_PAYMENT_CATEGORY = 'Supplier Payment';
+
+// Categories written by the app itself; payroll, statements and credit accounts match on these names
+export const PROTECTED_CATEGORIES = ['Staff - Weekly', 'Staff - Salary', 'Staff - Month End', 'Staff - Advance', SETTLEMENT_CATEGORY, SUPPLIER_PAYMENT_CATEGORY];
+
+const sameCategory = (t: Transaction, c: Category) => t.type === c.type && t.category === c.name;
+
+const nextOrder = (categories: Category[], type: TransactionType) =>
+  categories.filter(c => c.type === type).reduce((max, c) => Math.max(max, c.order + 1), 0);
+
+export const defaultCategories = (): Category[] => [
+  ...CATEGORIES.INCOME.map((name, i) => ({
+    id: `cat-income-${i}`,
+    name,
+    type: TransactionType.INCOME,
+    order: i,
+    protected: PROTECTED_CATEGORIES.includes(name) || undefined
+  })),
+  ...CATEGORIES.EXPENSE.map((name, i) => ({
+    id: `cat-expense-${i}`,
+    name,
+    type: TransactionType.EXPENSE,
+    order: i,
+    protected: PROTECTED_CATEGORIES.includes(name) || undefined
+  }))
+];
+
+// Seeds the defaults on first run, adds protected categories introduced since,
+// drops same-named duplicates left by a merge restore, and adds any name found
+// in the ledger (old imports, restored backups) as archived.
+export const reconcileCategories = (categories: Category[], transactions: Transaction[]) => {
+  const seen = new Set<string>();
+  const result = (categories.length ? categories : defaultCategories()).filter(c => {
+    const key = `${c.type}|${c.name}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  defaultCategories().filter(c => c.protected && !seen.has(`${c.type}|${c.name}`)).forEach(c => {
+    seen.add(`${c.type}|${c.name}`);
+    result.push({ ...c, order: nextOrder(result, c.type) });
+  });
+  transactions.forEach(t => {
+    const key = `${t.type}|${t.category}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    result.push({ id: `cat-${Date.now()}-${result.length}`, name: t.category, type: t.type, order: nextOrder(result, t.type), archived: true });
+  });
+  return result.length === categories.length ? categories : result;
+};
+
+export const categoriesFor = (categories: Category[], type: TransactionType, includeArchived = false) =>
+  categories
+    .filter(c => c.type === type && (includeArchived || !c.archived))
+    .sort((a, b) => a.order - b.order);
+
+const checkName = (categories: Category[], name: string, type: TransactionType, exceptId?: string) => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Enter a category name.');
+  const clash = categories.find(c => c.type === type && c.id !== exceptId && c.name.toLowerCase() === trimmed.toLowerCase());
+  if (clash) throw new Error(`"${clash.name}" already exists. Use Merge to combine two categories.`);
+  return trimmed;
+};
+
+const checkEditable = (c: Category | undefined) => {
+  if (!c) throw new Error('Category not found.');
+  if (c.protected) throw new Error(`"${c.name}" is managed by the app and cannot be changed.`);
+  return c;
+};
+
+export const addCategory = (categories: Category[], name: string, type: TransactionType): Category[] => [
+  ...categories,
+  { id: `cat-${Date.now()}`, name: checkName(categories, name, type), type, order: nextOrder(categories, type) }
+];
+
+// Entries on days whose drawer is closed keep their old category; `locked` counts them
+// A rename or merge: entries and schedules filed under `from` now go under `to`
+export interface CategoryMove {
+  from: Category;
+  to: string;
+}
+
+const recategorize = (transactions: Transaction[], from: Category, name: string, isLocked: (t: Transaction) => boolean) => {
+  let locked = 0;
+  const rewritten = transactions.map(t => {
+    if (!sameCategory(t, from)) return t;
+    if (isLocked(t)) {
+      locked++;
+      return t;
+    }
+    return { ...t, category: name };
+  });
+  return { transactions: rewritten, locked };
+};
+
+export const renameCategory = (categories: Category[], transactions: Transaction[], id: string, name: string, isLocked: (t: Transaction) => boolean) => {
+  const target = checkEditable(categories.find(c => c.id === id));
+  const trimmed = checkName(categories, name, target.type, id);
+  const { transactions: rewritten, locked } = recategorize(transactions, target, trimmed, isLocked);
+  const renamed = categories.map(c => c.id === id ? { ...c, name: trimmed } : c);
+  return {
+    // Closed days still use the old name, so it stays on as an archived category
+    categories: locked ? [...renamed, { ...target, id: `cat-${Date.now()}`, order: nextOrder(renamed, target.type), archived: true }] : renamed,
+    transactions: rewritten,
+    locked,
+    move: { from: target, to: trimmed }
+  };
+};
+
+// Moves every entry from one category into another of the same type and removes the first
+// (or archives it, when entries on closed days have to stay where they are)
+export const mergeCategory = (categories: Category[], transactions: Transaction[], fromId: string, intoId: string, isLocked: (t: Transaction) => boolean) => {
+  const from = checkEditable(categories.find(c => c.id === fromId));
+  const into = checkEditable(categories.find(c => c.id === intoId));
+  if (from.id === into.id || from.type !== into.type) throw new Error('Pick a different category of the same type.');
+  const { transactions: rewritten, locked } = recategorize(transactions, from, into.name, isLocked);
+  return {
+    categories: locked ? categories.map(c => c.id === fromId ? { ...c, archived: true } : c) : categories.filter(c => c.id !== fromId),
+    transactions: rewritten,
+    locked,
+    move: { from, to: into.name }
+  };
+};
+
+// Recurring expenses file future postings by category name, so they follow every rename and merge
+export const moveSchedules = (schedules: RecurringExpense[], move: CategoryMove) =>
+  move.from.type !== TransactionType.EXPENSE ? schedules
+    : schedules.map(s => s.category === move.from.name ? { ...s, category: move.to } : s);
+
+export const setCategoryArchived = (categories: Category[], id: string, archived: boolean) => {
+  checkEditable(categories.find(c => c.id === id));
+  return categories.map(c => c.id === id ? { ...c, archived: archived || undefined } : c);
+};
+
+// Swaps a category with its neighbour in the list for its type
+export const moveCategory = (categories: Category[], id: string, direction: -1 | 1) => {
+  const target = categories.find(c => c.id === id);
+  if (!target) return categories;
+  const list = categoriesFor(categories, target.type, true);
+  const neighbour = list[list.indexOf(target) + direction];
+  if (!neighbour) return categories;
+  return categories.map(c =>
+    c.id === target.id ? { ...c, order: neighbour.order } : c.id === neighbour.id ? { ...c, order: target.order } : c
+  );
+};
+
+export const countByCategory = (transactions: Transaction[]) =>
+  transactions.reduce((acc, t) => {
+    const key = `${t.type}|${t.category}`;
+    acc[key] = (acc[key] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
@@ -0,0 +1,50 @@
+export interface CsvTable {
+  rows: string[][];
+  lines: number[]; // 1-based line in the file where each row starts
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes.
+export const parseCsv = (text: string): CsvTable => {
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    // A newline inside quotes still moves the file on a line
+    if (ch === '\n' || (ch === '\r' && src[i + 1] !== '\n')) line++;
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') { i++; line++; }
+      row.push(field);
+      rows.push(row);
+      lines.push(rowStart);
+      rowStart = line;
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+    lines.push(rowStart);
+  }
+  // Spreadsheets often leave trailing blank lines
+  const kept = rows.map((r, i) => i).filter(i => rows[i].some(cell => cell.trim() !== ''));
+  return { rows: kept.map(i => rows[i]), lines: kept.map(i => lines[i]) };
+};
@@ -0,0 +1,128 @@
+import { Category, PaymentMethod, Transaction, TransactionType } from '../types';
+import { PAID_METHODS } from '../constants';
+import { getBusinessDateKey, toDateKey } from './dateUtils';
+import { categoriesFor } from './categories';
+import { CsvTable } from './csv';
+
+export type ImportField = 'date' | 'type' | 'amount' | 'category' | 'paymentMethod' | 'notes';
+
+export type ColumnMapping = Record<ImportField, number>; // -1 when unmapped
+
+export const IMPORT_FIELDS: { id: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { id: 'date', label: 'Date', required: true, aliases: ['date', 'txn date', 'transaction date', 'value date'] },
+  { id: 'type', label: 'Type', required: false, aliases: ['type', 'dr/cr', 'cr/dr', 'income/expense'] },
+  { id: 'amount', label: 'Amount', required: true, aliases: ['amount', 'amount (₹)', 'amount (rs)', 'amount (inr)', 'amt', 'value', 'rs', 'inr'] },
+  { id: 'category', label: 'Category', required: true, aliases: ['category', 'head', 'item'] },
+  { id: 'paymentMethod', label: 'Payment Method', required: false, aliases: ['paymentmethod', 'payment method', 'payment', 'mode', 'method'] },
+  { id: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'remarks', 'description', 'narration'] }
+];
+
+export interface ImportRow {
+  line: number; // 1-based line in the file
+  transaction?: Transaction;
+  errors: string[];
+  duplicateOf?: string; // Existing transaction id, or "file" for a repeat within the import
+}
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  return IMPORT_FIELDS.reduce((acc, f) => {
+    acc[f.id] = normalized.findIndex(h => f.aliases.includes(h));
+    return acc;
+  }, {} as ColumnMapping);
+};
+
+// Accepts ISO timestamps, YYYY-MM-DD and the Indian DD/MM/YYYY (or DD-MM-YY) forms
+export const parseImportDate = (raw: string): Date | null => {
+  const value = raw.trim();
+  const dmy = value.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})(?:\s+(\d{1,2}):(\d{2}))?/);
+  if (dmy) {
+    const year = dmy[3].length === 2 ? 2000 + Number(dmy[3]) : Number(dmy[3]);
+    const d = new Date(year, Number(dmy[2]) - 1, Number(dmy[1]), Number(dmy[4] || 12), Number(dmy[5] || 0));
+    return d.getDate() === Number(dmy[1]) && d.getMonth() === Number(dmy[2]) - 1 ? d : null;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    // Date-only values land at noon so they stay on the same business day for any cutoff
+    const [y, m, d] = value.split('-').map(Number);
+    return new Date(y, m - 1, d, 12);
+  }
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d;
+};
+
+const parseType = (raw: string): TransactionType | null => {
+  const v = raw.trim().toLowerCase();
+  if (['income', 'in', 'cr', 'credit', 'sale', 'sales'].includes(v)) return TransactionType.INCOME;
+  if (['expense', 'out', 'dr', 'debit', 'purchase'].includes(v)) return TransactionType.EXPENSE;
+  return null;
+};
+
+// Credit sales need a customer account, so imports only accept methods that move money
+const parsePaymentMethod = (raw: string): PaymentMethod | null => {
+  const v = raw.trim().toLowerCase().replace(/\s+/g, '');
+  if (!v) return 'CASH';
+  const match = PAID_METHODS.find(pm => pm.id.toLowerCase() === v || pm.label.toLowerCase().replace(/\s+/g, '') === v);
+  if (match) return match.id as PaymentMethod;
+  if (['upi', 'paytm', 'bhim'].includes(v)) return 'OTHER';
+  return null;
+};
+
+const duplicateKey = (t: Transaction, cutoffHour: number) =>
+  `${getBusinessDateKey(t.date, cutoffHour)}|${t.type}|${t.amount}|${t.category.toLowerCase()}`;
+
+export const validateImport = (
+  table: CsvTable,
+  mapping: ColumnMapping,
+  existing: Transaction[],
+  categories: Category[],
+  hasHeader: boolean,
+  cutoffHour = 0
+): ImportRow[] => {
+  const existingKeys = new Map(existing.map(t => [duplicateKey(t, cutoffHour), t.id]));
+  const seen = new Set<string>();
+  const cell = (row: string[], field: ImportField) => mapping[field] >= 0 ? (row[mapping[field]] || '').trim() : '';
+  const stamp = Date.now();
+
+  const first = hasHeader ? 1 : 0;
+  return table.rows.slice(first).map((row, i) => {
+    const line = table.lines[i + first];
+    const errors: string[] = [];
+
+    const date = parseImportDate(cell(row, 'date'));
+    if (!date) errors.push(`Unreadable date "${cell(row, 'date')}"`);
+    else if (toDateKey(date) > toDateKey(new Date())) errors.push('Date is in the future');
+
+    const rawAmount = Number(cell(row, 'amount').replace(/[₹,\s]/g, '').replace(/^Rs\.?/i, ''));
+    if (!cell(row, 'amount') || isNaN(rawAmount) || rawAmount === 0) errors.push(`Invalid amount "${cell(row, 'amount')}"`);
+
+    // Without a type column, a negative amount is read as an expense
+    let type = mapping.type >= 0 ? parseType(cell(row, 'type')) : (rawAmount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME);
+    if (!type) {
+      errors.push(`Unknown type "${cell(row, 'type')}"`);
+      type = TransactionType.INCOME;
+    }
+
+    // Archived categories are accepted since imports are usually old records
+    const category = categoriesFor(categories, type, true).find(c => c.name.toLowerCase() === cell(row, 'category').toLowerCase())?.name;
+    if (!category) errors.push(`"${cell(row, 'category')}" is not a ${type.toLowerCase()} category. Add it under Settings first.`);
+
+    const paymentMethod = parsePaymentMethod(cell(row, 'paymentMethod'));
+    if (!paymentMethod) errors.push(`Unknown payment method "${cell(row, 'paymentMethod')}"`);
+
+    if (errors.length) return { line, errors };
+
+    const transaction: Transaction = {
+      id: `import-${stamp}-${i}`,
+      date: date!.toISOString(),
+      amount: Math.abs(rawAmount),
+      category: category!,
+      type,
+      paymentMethod: paymentMethod!,
+      notes: cell(row, 'notes') || undefined
+    };
+    const key = duplicateKey(transaction, cutoffHour);
+    const duplicateOf = existingKeys.get(key) || (seen.has(key) ? 'file' : undefined);
+    seen.add(key);
+    return { line, transaction, errors, duplicateOf };
+  });
+};
@@ -0,0 +1,155 @@
+import { Customer, PaymentMethod, Transaction, TransactionType, UserProfile } from '../types';
+import { daysBetween, formatDateKey, getBusinessDateKey } from './dateUtils';
+import { SETTLEMENT_CATEGORY } from './categories';
+import { createPdf, pdfLine, PdfLine } from './pdf';
+
+// Credit sales are income entries paid by CREDIT: they count as sales but put no money
+// in the drawer. Settlements are income entries in the settlement category paid by the
+// real method, so the drawer sees the cash while sales totals leave them out.
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+export interface CustomerEntry {
+  transaction: Transaction;
+  dateKey: string;
+  charge: number;
+  payment: number;
+  balance: number; // Running amount owed after this entry
+}
+
+export interface CustomerDues {
+  customer: Customer;
+  outstanding: number;
+  oldestUnpaid?: string; // Business date of the oldest sale not yet covered by payments
+  ageDays: number;
+  buckets: Record<AgingBucket, number>;
+}
+
+export const isCreditSale = (t: Transaction) => t.type === TransactionType.INCOME && t.paymentMethod === 'CREDIT';
+
+export const isCreditSettlement = (t: Transaction) =>
+  t.type === TransactionType.INCOME && !!t.customerId && t.paymentMethod !== 'CREDIT';
+
+// Sales totals include credit sales and leave out money collected against them
+export const countsAsSale = (t: Transaction) => t.type === TransactionType.INCOME && !isCreditSettlement(t);
+
+export const customerLedger = (customerId: string, transactions: Transaction[], cutoffHour = 0): CustomerEntry[] => {
+  let balance = 0;
+  return transactions
+    .filter(t => t.customerId === customerId && t.type === TransactionType.INCOME)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(t => {
+      const charge = isCreditSale(t) ? t.amount : 0;
+      const payment = isCreditSale(t) ? 0 : t.amount;
+      balance += charge - payment;
+      return { transaction: t, dateKey: getBusinessDateKey(t.date, cutoffHour), charge, payment, balance };
+    });
+};
+
+export const outstandingFor = (customerId: string, transactions: Transaction[]) =>
+  transactions.reduce((sum, t) => {
+    if (t.customerId !== customerId) return sum;
+    if (isCreditSale(t)) return sum + t.amount;
+    if (isCreditSettlement(t)) return sum - t.amount;
+    return sum;
+  }, 0);
+
+const bucketFor = (days: number): AgingBucket => days <= 30 ? '0-30' : days <= 60 ? '31-60' : days <= 90 ? '61-90' : '90+';
+
+// Payments clear the oldest sales first; whatever is left unpaid is aged from its sale date
+export const customerDues = (customer: Customer, transactions: Transaction[], todayKey: string, cutoffHour = 0): CustomerDues => {
+  const entries = customerLedger(customer.id, transactions, cutoffHour);
+  let paid = entries.reduce((sum, e) => sum + e.payment, 0);
+  const buckets = { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 } as Record<AgingBucket, number>;
+  let oldestUnpaid: string | undefined;
+
+  entries.filter(e => e.charge > 0).forEach(e => {
+    const covered = Math.min(paid, e.charge);
+    paid -= covered;
+    const unpaid = e.charge - covered;
+    if (unpaid <= 0) return;
+    if (!oldestUnpaid) oldestUnpaid = e.dateKey;
+    buckets[bucketFor(daysBetween(e.dateKey, todayKey))] += unpaid;
+  });
+
+  const outstanding = entries.length ? entries[entries.length - 1].balance : 0;
+  return { customer, outstanding, oldestUnpaid, ageDays: oldestUnpaid ? daysBetween(oldestUnpaid, todayKey) : 0, buckets };
+};
+
+// Customers who owe money, longest-waiting first
+export const duesList = (customers: Customer[], transactions: Transaction[], todayKey: string, cutoffHour = 0) =>
+  customers
+    .map(c => customerDues(c, transactions, todayKey, cutoffHour))
+    .filter(d => d.outstanding > 0)
+    .sort((a, b) => b.ageDays - a.ageDays || b.outstanding - a.outstanding);
+
+export const buildSettlement = (customer: Customer, amount: number, paymentMethod: PaymentMethod, notes?: string): Transaction => ({
+  id: Date.now().toString(),
+  date: new Date().toISOString(),
+  amount,
+  category: SETTLEMENT_CATEGORY,
+  type: TransactionType.INCOME,
+  paymentMethod,
+  notes: notes || `Payment from ${customer.name}`,
+  customerId: customer.id
+});
+
+// Message for a credit sale that would take the customer past their limit, or null
+export const creditLimitWarning = (customers: Customer[], transactions: Transaction[], t: Transaction, replacing?: Transaction) => {
+  if (!isCreditSale(t) || !t.customerId) return null;
+  const customer = customers.find(c => c.id === t.customerId);
+  if (!customer?.creditLimit) return null;
+  const others = transactions.filter(x => x.id !== replacing?.id && x.id !== t.id);
+  const total = outstandingFor(customer.id, others) + t.amount;
+  if (total <= customer.creditLimit) return null;
+  return `${customer.name} will owe ₹${total.toLocaleString('en-IN')}, above their ₹${customer.creditLimit.toLocaleString('en-IN')} credit limit.`;
+};
+
+const entryLabel = (e: CustomerEntry) => e.charge ? (e.transaction.notes || e.transaction.category) : `Paid (${e.transaction.paymentMethod})`;
+
+// Plain-text statement for sharing over WhatsApp/SMS
+export const statementText = (user: UserProfile, customer: Customer, entries: CustomerEntry[]) => {
+  const recent = entries.slice(-15);
+  const lines = recent.map(e => `${formatDateKey(e.dateKey)}: ${e.charge ? `+₹${e.charge}` : `-₹${e.payment}`} ${entryLabel(e)}`);
+  const balance = entries.length ? entries[entries.length - 1].balance : 0;
+  return [
+    `${user.businessName} – account of ${customer.name}`,
+    ...(entries.length > recent.length ? ['(last 15 entries)'] : []),
+    ...lines,
+    `Balance due: ₹${balance.toLocaleString('en-IN')}`
+  ].join('\n');
+};
+
+export const whatsappLink = (phone: string, text: string) => {
+  const digits = phone.replace(/\D/g, '');
+  const number = digits.length === 10 ? `91${digits}` : digits;
+  return `https://wa.me/${number}?text=${encodeURIComponent(text)}`;
+};
+
+export const renderCustomerStatementPdf = (user: UserProfile, customer: Customer, entries: CustomerEntry[]) => {
+  const lines: PdfLine[] = [
+    pdfLine(user.businessName, { size: 16, bold: true }),
+    pdfLine(user.businessAddress),
+    pdfLine(`Statement of Account - ${customer.name}`, { size: 12, bold: true, gapBefore: 12 }),
+    pdfLine(`${customer.phone ? `Phone: ${customer.phone}   ` : ''}Generated ${new Date().toLocaleDateString('en-IN')}`),
+    {
+      cells: [{ text: 'Date', x: 0 }, { text: 'Details', x: 70 }, { text: 'Charge', x: 320 }, { text: 'Paid', x: 390 }, { text: 'Balance', x: 460 }],
+      bold: true,
+      gapBefore: 12,
+      rule: true
+    },
+    ...entries.map(e => ({
+      cells: [
+        { text: formatDateKey(e.dateKey, { day: 'numeric', month: 'short', year: 'numeric' }), x: 0 },
+        { text: entryLabel(e).slice(0, 45), x: 70 },
+        { text: e.charge ? `₹${e.charge}` : '', x: 320 },
+        { text: e.payment ? `₹${e.payment}` : '', x: 390 },
+        { text: `₹${e.balance}`, x: 460 }
+      ]
+    })),
+    pdfLine(`Balance due: ₹${entries.length ? entries[entries.length - 1].balance : 0}`, { size: 12, bold: true, gapBefore: 12 })
+  ];
+  return createPdf(lines);
+};
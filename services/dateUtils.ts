@@ -0,0 +1,46 @@
+// Date helpers shared by reports, payroll and day closing.
+// Keys are local calendar dates in YYYY-MM-DD form so they sort and compare as strings.
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export const toDateKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+export const fromDateKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const addDays = (key: string, days: number) => {
+  const d = fromDateKey(key);
+  d.setDate(d.getDate() + days);
+  return toDateKey(d);
+};
+
+// Whole calendar days from one key to another (negative if `to` is earlier)
+export const daysBetween = (fromKey: string, toKey: string) =>
+  Math.round((fromDateKey(toKey).getTime() - fromDateKey(fromKey).getTime()) / 86400000);
+
+export const daysInMonth = (key: string) => {
+  const d = fromDateKey(key);
+  return new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+};
+
+// A stall that closes at 2 AM still belongs to the previous business day,
+// so shift the timestamp back by the cutoff before taking the calendar date.
+export const getBusinessDateKey = (date: string | Date, cutoffHour = 0) => {
+  const d = new Date(date);
+  d.setHours(d.getHours() - cutoffHour);
+  return toDateKey(d);
+};
+
+// Month keys are YYYY-MM
+export const addMonths = (monthKey: string, months: number) => {
+  const d = fromDateKey(`${monthKey}-01`);
+  return toDateKey(new Date(d.getFullYear(), d.getMonth() + months, 1)).slice(0, 7);
+};
+
+export const monthLabel = (monthKey: string) =>
+  fromDateKey(`${monthKey}-01`).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+
+export const formatDateKey = (key: string, opts: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short' }) =>
+  fromDateKey(key).toLocaleDateString('en-IN', opts);
@@ -0,0 +1,16 @@
+import { PdfDocument } from './pdf';
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Statements can hold names and notes in scripts the PDF fonts cannot show
+export const downloadPdf = (pdf: PdfDocument, filename: string) => {
+  if (pdf.missingText) alert('Some letters in this PDF could not be shown and are printed as "?".');
+  downloadBlob(pdf.blob, filename);
+};
@@ -0,0 +1,159 @@
+import { DailySummary, PaymentMethod, StaffMember, Transaction, TransactionType } from '../types';
+import { PAY_FREQUENCIES } from '../constants';
+import { getBusinessDateKey } from './dateUtils';
+import { PeriodRange, filterByPeriod } from './reportingPeriod';
+import { heldRunRow, toStatementRow } from './staffStatement';
+import { grossPerPayout, outstandingAdvance } from './payroll';
+import { XlsxSheet, createWorkbook } from './xlsx';
+import { countsAsSale } from './customers';
+import { countsAsExpense } from './suppliers';
+
+// Shared export module for the Reports and Staff tabs: escaped CSV and multi-sheet .xlsx.
+
+export const formatINR = (amount: number) =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Quote when needed and neutralise leading =, +, -, @, tab and CR so spreadsheets don't run notes as formulas
+export const escapeCsvCell = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: (string | number | null | undefined)[][]) =>
+  // BOM so Excel opens ₹ and other UTF-8 text correctly
+  '\uFEFF' + [headers, ...rows].map(r => r.map(escapeCsvCell).join(',')).join('\r\n');
+
+export const buildDailySummaries = (transactions: Transaction[], cutoffHour = 0): DailySummary[] => {
+  const byDay = new Map<string, DailySummary>();
+  transactions.forEach(t => {
+    const date = getBusinessDateKey(t.date, cutoffHour);
+    const day = byDay.get(date) || {
+      date,
+      totalIncome: 0,
+      totalExpenses: 0,
+      netProfit: 0,
+      paymentBreakdown: { CASH: 0, GPAY: 0, PHONEPE: 0, OTHER: 0, CREDIT: 0 }
+    };
+    // Settling credit either way is neither a sale nor an expense; the original sale or bill was
+    if (countsAsSale(t)) {
+      day.totalIncome += t.amount;
+      day.paymentBreakdown[t.paymentMethod] += t.amount;
+    } else if (countsAsExpense(t)) {
+      day.totalExpenses += t.amount;
+    }
+    day.netProfit = day.totalIncome - day.totalExpenses;
+    byDay.set(date, day);
+  });
+  return Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const staffName = (staff: StaffMember[], id?: string) => staff.find(s => s.id === id)?.name || '';
+
+export const transactionsSheet = (transactions: Transaction[], staff: StaffMember[]): XlsxSheet => ({
+  name: 'Transactions',
+  columns: [
+    { header: 'Date', format: 'date', width: 18 },
+    { header: 'Type', width: 10 },
+    { header: 'Category', width: 18 },
+    { header: 'Amount', format: 'currency', width: 14 },
+    { header: 'Payment Method', width: 14 },
+    { header: 'Staff', width: 16 },
+    { header: 'Notes', width: 40 }
+  ],
+  rows: [...transactions].sort((a, b) => a.date.localeCompare(b.date)).map(t => [
+    new Date(t.date), t.type, t.category, t.amount, t.paymentMethod, staffName(staff, t.staffId), t.notes
+  ])
+});
+
+export const staffSheet = (staff: StaffMember[]): XlsxSheet => ({
+  name: 'Staff',
+  columns: [
+    { header: 'Name', width: 18 },
+    { header: 'Phone', width: 14 },
+    { header: 'Aadhaar', width: 16 },
+    { header: 'Address', width: 30 },
+    { header: 'Pay Frequency', width: 12 },
+    { header: 'Pay Rate', format: 'currency' },
+    { header: 'Paid Now %', format: 'number', width: 10 },
+    { header: 'Weekly Pay', format: 'currency' },
+    { header: 'Held Balance', format: 'currency' },
+    { header: 'Advance Due', format: 'currency' },
+    { header: 'Joined Date', format: 'date', width: 18 }
+  ],
+  rows: staff.map(s => [
+    s.name,
+    s.phone,
+    s.aadhaar,
+    s.address,
+    PAY_FREQUENCIES.find(f => f.id === s.payPolicy.frequency)?.label,
+    grossPerPayout(s),
+    s.payPolicy.payoutPercent,
+    s.weeklyBasePay,
+    s.totalHeldBalance,
+    outstandingAdvance(s),
+    new Date(s.joinedDate)
+  ])
+});
+
+const SUMMARY_METHODS: PaymentMethod[] = ['CASH', 'GPAY', 'PHONEPE', 'OTHER', 'CREDIT'];
+
+export const dailySummarySheet = (summaries: DailySummary[]): XlsxSheet => ({
+  name: 'Daily Summary',
+  columns: [
+    { header: 'Date', width: 12 },
+    { header: 'Income', format: 'currency' },
+    { header: 'Expenses', format: 'currency' },
+    { header: 'Net Profit', format: 'currency' },
+    ...SUMMARY_METHODS.map(pm => ({ header: `${pm} Sales`, format: 'currency' as const }))
+  ],
+  rows: summaries.map(d => [d.date, d.totalIncome, d.totalExpenses, d.netProfit, ...SUMMARY_METHODS.map(pm => d.paymentBreakdown[pm])])
+});
+
+export const payrollSheet = (transactions: Transaction[], staff: StaffMember[]): XlsxSheet => ({
+  name: 'Payroll',
+  columns: [
+    { header: 'Date', format: 'date', width: 18 },
+    { header: 'Staff', width: 16 },
+    { header: 'Category', width: 18 },
+    { header: 'Earned', format: 'currency' },
+    { header: 'Held', format: 'currency' },
+    { header: 'Released', format: 'currency' },
+    { header: 'Advance', format: 'currency' },
+    { header: 'Recovered', format: 'currency' },
+    { header: 'Cash Paid', format: 'currency' },
+    { header: 'Notes', width: 40 }
+  ],
+  rows: [
+    ...transactions
+      .filter(t => t.staffId && t.type === TransactionType.EXPENSE)
+      .map(t => ({ r: toStatementRow(t), name: staffName(staff, t.staffId), category: t.category, notes: t.notes })),
+    ...staff.flatMap(s => (s.heldPayRuns || []).map(run => ({ r: heldRunRow(run), name: s.name, category: 'Held in full', notes: heldRunRow(run).description })))
+  ]
+    .sort((a, b) => a.r.date.localeCompare(b.r.date))
+    .map(({ r, name, category, notes }) => [new Date(r.date), name, category, r.earned, r.held, r.released, r.advance, r.recovered, r.cashPaid, notes])
+});
+
+const inRange = (transactions: Transaction[], range: PeriodRange | null, cutoffHour: number) =>
+  range ? filterByPeriod(transactions, range, cutoffHour) : transactions;
+
+export const exportTransactionsCsv = (transactions: Transaction[], staff: StaffMember[], range: PeriodRange | null, cutoffHour = 0) => {
+  const rows = inRange(transactions, range, cutoffHour)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(t => [t.date, t.type, formatINR(t.amount), t.category, t.paymentMethod, staffName(staff, t.staffId), t.notes]);
+  return new Blob([toCsv(['Date', 'Type', 'Amount (₹)', 'Category', 'PaymentMethod', 'Staff', 'Notes'], rows)], { type: 'text/csv;charset=utf-8' });
+};
+
+export const exportWorkbook = (transactions: Transaction[], staff: StaffMember[], range: PeriodRange | null, cutoffHour = 0) => {
+  const scoped = inRange(transactions, range, cutoffHour);
+  return createWorkbook([
+    transactionsSheet(scoped, staff),
+    staffSheet(staff),
+    dailySummarySheet(buildDailySummaries(scoped, cutoffHour)),
+    payrollSheet(scoped, staff)
+  ]);
+};
+
+export const exportStaffWorkbook = (staff: StaffMember[], transactions: Transaction[]) =>
+  createWorkbook([staffSheet(staff), payrollSheet(transactions, staff)]);
@@ -1,40 +1,55 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { BusinessInsights, InsightAggregate, InsightProvider, InsightStatus } from "./insights";
 
-import { GoogleGenAI } from "@google/genai";
-import { Transaction } from "../types";
+const STATUSES: InsightStatus[] = ['HEALTHY', 'WATCH', 'AT_RISK'];
 
-export const getBusinessInsights = async (transactions: Transaction[], businessName: string) => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const summary = transactions.reduce((acc, curr) => {
-    if (curr.type === 'INCOME') acc.income += curr.amount;
-    else acc.expenses += curr.amount;
-    return acc;
-  }, { income: 0, expenses: 0 });
+const INSIGHTS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    status: { type: Type.STRING, enum: STATUSES },
+    summary: { type: Type.STRING },
+    costAlerts: { type: Type.ARRAY, items: { type: Type.STRING } },
+    actions: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['status', 'summary', 'costAlerts', 'actions']
+};
+
+const buildPrompt = (a: InsightAggregate) => `
+    You advise the owner of "${a.businessName}", a tea stall in India. Amounts are in rupees.
+    Reporting period: ${a.periodLabel} (${a.startKey} to ${a.endKey}, ${a.days} days).
+    "previous" is the same number of days just before the period; "weeks" are the last four weeks, oldest first.
+    "expenseShifts" compares expense categories with the previous window; "payroll.share" is staff pay as a percent of sales.
 
-  const prompt = `
-    Analyze the daily business data for "${businessName}".
-    Total Income: ₹${summary.income}
-    Total Expenses: ₹${summary.expenses}
-    Net Profit: ₹${summary.income - summary.expenses}
-    
-    Recent Transactions:
-    ${transactions.slice(-5).map(t => `- ${t.type}: ₹${t.amount} (${t.category})`).join('\n')}
+    ${JSON.stringify(a)}
 
-    Please provide a short (2-3 sentence) professional advice on:
-    1. Profitability status.
-    2. Cost management suggestions (especially if expenses are high).
-    3. One growth tip for a tea stall.
-    Return only the plain text advice.
+    Reply with:
+    - status: HEALTHY, WATCH or AT_RISK.
+    - summary: one or two sentences on profitability and the sales trend.
+    - costAlerts: up to three short alerts about costs that rose or are high; empty if none.
+    - actions: up to three short, specific actions, including one growth tip.
   `;
 
-  try {
+const isStringList = (v: unknown): v is string[] => Array.isArray(v) && v.every(s => typeof s === 'string');
+
+export const geminiInsightProvider: InsightProvider = {
+  name: 'gemini',
+  generate: async (aggregate) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const response = await ai.models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: prompt,
+      contents: buildPrompt(aggregate),
+      config: { responseMimeType: 'application/json', responseSchema: INSIGHTS_SCHEMA }
     });
-    return response.text;
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    return "Could not generate insights at this time. Keep tracking your sales!";
+    const parsed = JSON.parse(response.text || '{}') as Partial<BusinessInsights>;
+    if (!STATUSES.includes(parsed.status!) || typeof parsed.summary !== 'string' || !isStringList(parsed.costAlerts) || !isStringList(parsed.actions)) {
+      throw new Error('Gemini returned insights in an unexpected shape');
+    }
+    return {
+      status: parsed.status!,
+      summary: parsed.summary,
+      costAlerts: parsed.costAlerts.slice(0, 3),
+      actions: parsed.actions.slice(0, 3),
+      source: 'gemini'
+    };
   }
 };
@@ -0,0 +1,215 @@
+import { StaffMember, Transaction } from '../types';
+import { addDays, daysBetween, getBusinessDateKey } from './dateUtils';
+import { PeriodRange } from './reportingPeriod';
+import { pctChange } from './analytics';
+import { countsAsSale } from './customers';
+import { countsAsExpense } from './suppliers';
+
+// Dashboard advice. The numbers are worked out here and only the aggregate goes to a
+// provider, which answers with a fixed shape that the dashboard renders as cards. Answers are
+// cached by a hash of the aggregate, so asking again about unchanged data costs nothing.
+
+export type InsightStatus = 'HEALTHY' | 'WATCH' | 'AT_RISK';
+
+export interface BusinessInsights {
+  status: InsightStatus;
+  summary: string;
+  costAlerts: string[];
+  actions: string[];
+  source: string; // Provider that wrote it
+}
+
+export interface WeekTotals {
+  startKey: string;
+  sales: number;
+  expenses: number;
+}
+
+export interface CategoryShift {
+  category: string;
+  current: number;
+  previous: number;
+  change: number | null; // Percent
+}
+
+export interface InsightAggregate {
+  businessName: string;
+  periodLabel: string;
+  startKey: string;
+  endKey: string;
+  days: number;
+  sales: number;
+  expenses: number;
+  net: number;
+  margin: number;
+  bills: number;
+  creditSales: number; // Sold on credit, not yet cash
+  previous: { sales: number; expenses: number; net: number }; // Same number of days just before
+  weeks: WeekTotals[]; // Last four weeks up to the period end, oldest first
+  topSales: { category: string; amount: number }[];
+  expenseShifts: CategoryShift[]; // Largest moves against the previous window first
+  payroll: { paid: number; share: number; staffCount: number; heldOwed: number };
+}
+
+export interface InsightProvider {
+  name: string;
+  generate: (aggregate: InsightAggregate) => Promise<BusinessInsights>;
+}
+
+export const INSIGHT_STATUS_LABELS: Record<InsightStatus, string> = {
+  HEALTHY: 'Healthy',
+  WATCH: 'Keep an Eye',
+  AT_RISK: 'At Risk'
+};
+
+export const MIN_INSIGHT_ENTRIES = 3; // Fewer gives nothing worth advising on
+
+const WEEKS = 4;
+const MAX_SHIFTS = 5;
+const CACHE_LIMIT = 20;
+
+const percent = (part: number, whole: number) => whole ? Math.round((part / whole) * 1000) / 10 : 0;
+
+const isPayroll = (t: Transaction) => !!(t.staffId || t.payroll);
+
+const sumIn = (transactions: Transaction[], startKey: string, endKey: string, cutoffHour: number) => {
+  const totals = { sales: 0, expenses: 0, bills: 0, creditSales: 0, payroll: 0 };
+  const sales: Record<string, number> = {};
+  const expenses: Record<string, number> = {};
+  transactions.forEach(t => {
+    const key = getBusinessDateKey(t.date, cutoffHour);
+    if (key < startKey || key > endKey) return;
+    if (countsAsSale(t)) {
+      totals.sales += t.amount;
+      totals.bills++;
+      if (t.paymentMethod === 'CREDIT') totals.creditSales += t.amount;
+      sales[t.category] = (sales[t.category] || 0) + t.amount;
+    } else if (countsAsExpense(t)) {
+      totals.expenses += t.amount;
+      if (isPayroll(t)) totals.payroll += t.amount;
+      expenses[t.category] = (expenses[t.category] || 0) + t.amount;
+    }
+  });
+  return { ...totals, byCategory: { sales, expenses } };
+};
+
+export const buildInsightAggregate = (
+  transactions: Transaction[],
+  staff: StaffMember[],
+  range: PeriodRange,
+  businessName: string,
+  cutoffHour = 0
+): InsightAggregate => {
+  const days = daysBetween(range.startKey, range.endKey) + 1;
+  const current = sumIn(transactions, range.startKey, range.endKey, cutoffHour);
+  const previous = sumIn(transactions, addDays(range.startKey, -days), addDays(range.startKey, -1), cutoffHour);
+
+  const weeks: WeekTotals[] = [];
+  for (let i = WEEKS - 1; i >= 0; i--) {
+    const startKey = addDays(range.endKey, -7 * i - 6);
+    const week = sumIn(transactions, startKey, addDays(startKey, 6), cutoffHour);
+    weeks.push({ startKey, sales: week.sales, expenses: week.expenses });
+  }
+
+  const categories = new Set([...Object.keys(current.byCategory.expenses), ...Object.keys(previous.byCategory.expenses)]);
+  const expenseShifts = Array.from(categories)
+    .map(category => {
+      const now = current.byCategory.expenses[category] || 0;
+      const before = previous.byCategory.expenses[category] || 0;
+      return { category, current: now, previous: before, change: pctChange(now, before) };
+    })
+    .sort((a, b) => Math.abs(b.current - b.previous) - Math.abs(a.current - a.previous))
+    .slice(0, MAX_SHIFTS);
+
+  return {
+    businessName,
+    periodLabel: range.label,
+    startKey: range.startKey,
+    endKey: range.endKey,
+    days,
+    sales: current.sales,
+    expenses: current.expenses,
+    net: current.sales - current.expenses,
+    margin: percent(current.sales - current.expenses, current.sales),
+    bills: current.bills,
+    creditSales: current.creditSales,
+    previous: { sales: previous.sales, expenses: previous.expenses, net: previous.sales - previous.expenses },
+    weeks,
+    topSales: Object.entries(current.byCategory.sales)
+      .map(([category, amount]) => ({ category, amount }))
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, 3),
+    expenseShifts,
+    payroll: {
+      paid: current.payroll,
+      share: percent(current.payroll, current.sales),
+      staffCount: staff.length,
+      heldOwed: staff.reduce((sum, s) => sum + s.totalHeldBalance, 0)
+    }
+  };
+};
+
+// FNV-1a over the aggregate's JSON; stable because the aggregate is built in a fixed order
+export const hashAggregate = (aggregate: InsightAggregate) => {
+  const text = JSON.stringify(aggregate);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const rupees = (n: number) => `₹${Math.round(n).toLocaleString('en-IN')}`;
+
+// Rule-based advice from the same aggregate, with no network: used without an API key and
+// when the model call fails. It reads nothing but the aggregate, so equal aggregates get equal advice.
+export const offlineInsightProvider: InsightProvider = {
+  name: 'offline',
+  generate: async (a) => {
+    const salesChange = pctChange(a.sales, a.previous.sales);
+    const lastWeek = a.weeks[a.weeks.length - 1];
+    const weekBefore = a.weeks[a.weeks.length - 2];
+    const weekChange = pctChange(lastWeek.sales, weekBefore.sales);
+
+    const status: InsightStatus = a.net < 0
+      ? 'AT_RISK'
+      : a.margin < 15 || (salesChange !== null && salesChange <= -15) ? 'WATCH' : 'HEALTHY';
+
+    const trend = salesChange === null ? '' : ` Sales are ${salesChange >= 0 ? 'up' : 'down'} ${Math.abs(salesChange)}% on the previous ${a.days === 1 ? 'day' : `${a.days} days`}.`;
+    const summary = `${a.periodLabel}: ${rupees(a.sales)} sales, ${rupees(a.expenses)} spent, ${a.margin}% margin.${trend}`;
+
+    const costAlerts = a.expenseShifts
+      .filter(s => s.change !== null && s.change >= 25 && s.current - s.previous >= 200)
+      .map(s => `${s.category} up ${s.change}% (${rupees(s.current)} vs ${rupees(s.previous)})`);
+    if (a.payroll.share > 35) costAlerts.push(`Staff pay is ${a.payroll.share}% of sales`);
+    if (a.payroll.heldOwed > a.net && a.payroll.heldOwed > 0) costAlerts.push(`${rupees(a.payroll.heldOwed)} held pay is owed to staff`);
+
+    const actions: string[] = [];
+    if (weekChange !== null && weekChange <= -10) actions.push(`Sales fell ${Math.abs(weekChange)}% week over week; check opening hours and stock-outs`);
+    if (a.topSales.length) actions.push(`Push ${a.topSales[0].category}, your best seller (${rupees(a.topSales[0].amount)})`);
+    if (percent(a.creditSales, a.sales) > 20) actions.push(`${rupees(a.creditSales)} was sold on credit; collect dues before giving more`);
+    if (status !== 'HEALTHY' && a.expenseShifts.length) actions.push(`Review ${a.expenseShifts[0].category} spending`);
+    if (!actions.length) actions.push('Keep recording every sale and expense to spot trends early');
+
+    return { status, summary, costAlerts, actions: actions.slice(0, 3), source: 'offline' };
+  }
+};
+
+const cache = new Map<string, BusinessInsights>();
+
+// A failed provider falls back to the offline advice, which is not cached so a later refresh retries
+export const getInsights = async (provider: InsightProvider, aggregate: InsightAggregate) => {
+  const key = `${provider.name}:${hashAggregate(aggregate)}`;
+  const hit = cache.get(key);
+  if (hit) return hit;
+  try {
+    const insights = await provider.generate(aggregate);
+    if (cache.size >= CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+    cache.set(key, insights);
+    return insights;
+  } catch (err) {
+    console.error("Insights Error:", err);
+    return offlineInsightProvider.generate(aggregate);
+  }
+};
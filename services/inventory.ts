@@ -0,0 +1,91 @@
+import { Category, StockCount, StockItem, StockUnit, Transaction, TransactionType } from '../types';
+import { getBusinessDateKey } from './dateUtils';
+
+// Quantities come from two places: purchases logged as expenses with a quantity,
+// and stock-takes that record what was actually on hand at the end of a business day.
+// Whatever disappeared between two counts was used; the count's wastage is the part of that not sold.
+
+export const DEFAULT_STOCK_ITEMS: { name: string; unit: StockUnit; reorderLevel: number }[] = [
+  { name: 'Milk', unit: 'L', reorderLevel: 10 },
+  { name: 'Tea Powder', unit: 'KG', reorderLevel: 1 },
+  { name: 'Sugar', unit: 'KG', reorderLevel: 2 },
+  { name: 'Gas/Fuel', unit: 'PCS', reorderLevel: 0 } // Cylinders; recipes take a fraction per cup
+];
+
+export interface StockPeriod {
+  date: string; // Business date of the closing count
+  opening: number;
+  purchased: number;
+  closing: number;
+  used: number; // opening + purchased - closing
+  wasted: number;
+  consumed: number; // used - wasted
+}
+
+export const formatQty = (quantity: number, unit: StockUnit) => `${Number(quantity.toFixed(2))} ${unit}`;
+
+// Starter items for the main raw materials, linked to same-named expense categories
+export const createDefaultStockItems = (categories: Category[], existing: StockItem[]): StockItem[] =>
+  DEFAULT_STOCK_ITEMS
+    .map(d => ({ ...d, category: categories.find(c => c.type === TransactionType.EXPENSE && c.name === d.name) }))
+    .filter(d => d.category && !existing.some(i => i.categoryId === d.category!.id))
+    .map((d, i) => ({
+      id: `stock-${Date.now()}-${i}`,
+      name: d.name,
+      unit: d.unit,
+      categoryId: d.category!.id,
+      reorderLevel: d.reorderLevel,
+      openingStock: 0,
+      createdAt: new Date().toISOString()
+    }));
+
+// The stock item an expense category buys, if any
+export const stockItemForCategory = (items: StockItem[], categories: Category[], categoryName: string) => {
+  const category = categories.find(c => c.type === TransactionType.EXPENSE && c.name === categoryName);
+  return category ? items.find(i => i.categoryId === category.id) : undefined;
+};
+
+const purchasesOf = (item: StockItem, transactions: Transaction[], cutoffHour: number) =>
+  transactions
+    .filter(t => t.stockItemId === item.id && t.type === TransactionType.EXPENSE && t.quantity)
+    .map(t => ({ date: getBusinessDateKey(t.date, cutoffHour), quantity: t.quantity!, amount: t.amount }));
+
+const countsOf = (item: StockItem, counts: StockCount[]) =>
+  counts.filter(c => c.itemId === item.id).sort((a, b) => a.date.localeCompare(b.date));
+
+// Purchases on a count's date are assumed to arrive before closing
+export const stockLedger = (item: StockItem, transactions: Transaction[], counts: StockCount[], cutoffHour = 0): StockPeriod[] => {
+  const purchases = purchasesOf(item, transactions, cutoffHour);
+  let opening = item.openingStock;
+  let since = '';
+  return countsOf(item, counts).map(c => {
+    const purchased = purchases.filter(p => p.date > since && p.date <= c.date).reduce((sum, p) => sum + p.quantity, 0);
+    const used = opening + purchased - c.quantity;
+    const period = { date: c.date, opening, purchased, closing: c.quantity, used, wasted: c.wasted, consumed: used - c.wasted };
+    opening = c.quantity;
+    since = c.date;
+    return period;
+  });
+};
+
+// Last count plus everything bought after it
+export const stockOnHand = (item: StockItem, transactions: Transaction[], counts: StockCount[], cutoffHour = 0) => {
+  const last = countsOf(item, counts).pop();
+  const bought = purchasesOf(item, transactions, cutoffHour)
+    .filter(p => !last || p.date > last.date)
+    .reduce((sum, p) => sum + p.quantity, 0);
+  return { quantity: (last ? last.quantity : item.openingStock) + bought, countedOn: last?.date };
+};
+
+export const lowStockItems = (items: StockItem[], transactions: Transaction[], counts: StockCount[], cutoffHour = 0) =>
+  items
+    .map(item => ({ item, onHand: stockOnHand(item, transactions, counts, cutoffHour).quantity }))
+    .filter(s => s.item.reorderLevel > 0 && s.onHand <= s.item.reorderLevel);
+
+// Price per unit paid on the most recent purchase up to a business date (default: all time)
+export const latestUnitCost = (item: StockItem, transactions: Transaction[], asOfKey = '9999-12-31', cutoffHour = 0) => {
+  const last = purchasesOf(item, transactions, cutoffHour)
+    .filter(p => p.date <= asOfKey)
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+  return last ? last.amount / last.quantity : 0;
+};
@@ -0,0 +1,94 @@
+import { LedgerFilter, PaymentMethod, Transaction, TransactionType } from '../types';
+import { PAYMENT_METHODS } from '../constants';
+import { getBusinessDateKey } from './dateUtils';
+import { countsAsSale } from './customers';
+import { countsAsExpense } from './suppliers';
+
+export const EMPTY_LEDGER_FILTER: LedgerFilter = { query: '' };
+
+export interface LedgerDay {
+  dateKey: string;
+  entries: Transaction[];
+  sales: number;
+  expenses: number;
+}
+
+export const isFiltered = (f: LedgerFilter) =>
+  !!(f.query.trim() || f.from || f.to || f.type || f.category || f.paymentMethod || f.staffId);
+
+export const filterLedger = (transactions: Transaction[], f: LedgerFilter, cutoffHour: number) => {
+  const query = f.query.trim().toLowerCase();
+  return transactions.filter(t => {
+    if (query && !`${t.category} ${t.notes || ''}`.toLowerCase().includes(query)) return false;
+    if (f.type && t.type !== f.type) return false;
+    if (f.category && t.category !== f.category) return false;
+    if (f.paymentMethod && t.paymentMethod !== f.paymentMethod) return false;
+    if (f.staffId && t.staffId !== f.staffId) return false;
+    if (f.from || f.to) {
+      const key = getBusinessDateKey(t.date, cutoffHour);
+      if (f.from && key < f.from) return false;
+      if (f.to && key > f.to) return false;
+    }
+    return true;
+  });
+};
+
+// Expects the ledger newest-first and keeps that order
+export const groupByDay = (transactions: Transaction[], cutoffHour: number): LedgerDay[] => {
+  const days: LedgerDay[] = [];
+  transactions.forEach(t => {
+    const dateKey = getBusinessDateKey(t.date, cutoffHour);
+    let day = days[days.length - 1];
+    if (!day || day.dateKey !== dateKey) {
+      day = { dateKey, entries: [], sales: 0, expenses: 0 };
+      days.push(day);
+    }
+    day.entries.push(t);
+    if (countsAsSale(t)) day.sales += t.amount;
+    else if (countsAsExpense(t)) day.expenses += t.amount;
+  });
+  return days;
+};
+
+// Filtered ledger views live in the query string (?view=ledger&q=milk&method=CASH) so they can be bookmarked
+const QUERY_PARAMS: [keyof LedgerFilter, string][] = [
+  ['query', 'q'],
+  ['from', 'from'],
+  ['to', 'to'],
+  ['type', 'type'],
+  ['category', 'category'],
+  ['paymentMethod', 'method'],
+  ['staffId', 'staff']
+];
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isLedgerUrl = (search: string) => new URLSearchParams(search).get('view') === 'ledger';
+
+export const filterToQuery = (f: LedgerFilter) => {
+  const params = new URLSearchParams({ view: 'ledger' });
+  QUERY_PARAMS.forEach(([key, name]) => {
+    const value = f[key];
+    if (value) params.set(name, value);
+  });
+  return `?${params.toString()}`;
+};
+
+// Anything malformed in a hand-edited URL is dropped rather than filtering everything out
+export const filterFromQuery = (search: string): LedgerFilter => {
+  const params = new URLSearchParams(search);
+  const get = (name: string) => params.get(name) || undefined;
+  const from = get('from');
+  const to = get('to');
+  const type = get('type');
+  const method = get('method');
+  return {
+    query: get('q') || '',
+    from: from && DATE_KEY.test(from) ? from : undefined,
+    to: to && DATE_KEY.test(to) ? to : undefined,
+    type: Object.values(TransactionType).includes(type as TransactionType) ? type as TransactionType : undefined,
+    category: get('category'),
+    paymentMethod: PAYMENT_METHODS.some(pm => pm.id === method) ? method as PaymentMethod : undefined,
+    staffId: get('staff')
+  };
+};
@@ -0,0 +1,65 @@
+import { Category, LineItem, MenuItem, PaymentMethod, Transaction, TransactionType } from '../types';
+
+export interface ItemSales {
+  menuItemId: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  bills: number;
+}
+
+export const activeMenu = (menu: MenuItem[]) => menu.filter(m => !m.archived).sort((a, b) => a.order - b.order);
+
+export const nextMenuOrder = (menu: MenuItem[]) => menu.reduce((max, m) => Math.max(max, m.order + 1), 0);
+
+export const billTotal = (lines: LineItem[]) => lines.reduce((sum, l) => sum + l.price * l.quantity, 0);
+
+export const addToBill = (lines: LineItem[], item: MenuItem, delta = 1): LineItem[] => {
+  const existing = lines.find(l => l.menuItemId === item.id);
+  if (!existing) return delta > 0 ? [...lines, { menuItemId: item.id, name: item.name, price: item.price, quantity: delta }] : lines;
+  return lines
+    .map(l => l.menuItemId === item.id ? { ...l, quantity: l.quantity + delta } : l)
+    .filter(l => l.quantity > 0);
+};
+
+export const describeBill = (lines: LineItem[]) => lines.map(l => `${l.quantity}× ${l.name}`).join(', ');
+
+// A transaction carries one category, so a mixed bill is booked under the
+// category that earned the most on it; item-wise reports use the line items.
+const billCategory = (lines: LineItem[], menu: MenuItem[], categories: Category[]) => {
+  const byCategory = lines.reduce((acc, l) => {
+    const categoryId = menu.find(m => m.id === l.menuItemId)?.categoryId || '';
+    acc[categoryId] = (acc[categoryId] || 0) + l.price * l.quantity;
+    return acc;
+  }, {} as Record<string, number>);
+  const [topId] = Object.entries(byCategory).sort((a, b) => b[1] - a[1])[0] || [''];
+  const income = categories.filter(c => c.type === TransactionType.INCOME);
+  return (income.find(c => c.id === topId) || income.find(c => !c.archived))?.name || 'Other';
+};
+
+export const buildSale = (lines: LineItem[], paymentMethod: PaymentMethod, menu: MenuItem[], categories: Category[], customerId?: string): Transaction => ({
+  id: Date.now().toString(),
+  date: new Date().toISOString(),
+  amount: billTotal(lines),
+  category: billCategory(lines, menu, categories),
+  type: TransactionType.INCOME,
+  paymentMethod,
+  notes: describeBill(lines),
+  lineItems: lines,
+  customerId: paymentMethod === 'CREDIT' ? customerId : undefined
+});
+
+export const itemSales = (transactions: Transaction[]): ItemSales[] => {
+  const byItem = new Map<string, ItemSales>();
+  transactions.forEach(t => {
+    if (t.type !== TransactionType.INCOME || !t.lineItems) return;
+    t.lineItems.forEach(l => {
+      const row = byItem.get(l.menuItemId) || { menuItemId: l.menuItemId, name: l.name, quantity: 0, revenue: 0, bills: 0 };
+      row.quantity += l.quantity;
+      row.revenue += l.price * l.quantity;
+      row.bills += 1;
+      byItem.set(l.menuItemId, row);
+    });
+  });
+  return Array.from(byItem.values()).sort((a, b) => b.revenue - a.revenue);
+};
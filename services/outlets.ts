@@ -0,0 +1,69 @@
+import { DayClose, Outlet, StaffMember, Transaction, UserProfile } from '../types';
+import { PeriodRange, filterByPeriod } from './reportingPeriod';
+import { countsAsSale } from './customers';
+import { countsAsExpense } from './suppliers';
+
+// Transactions, staff, drawer closes and recurring expenses belong to an outlet. The menu,
+// categories, stock and credit accounts are shared across all of the owner's outlets.
+
+// Everything recorded before outlets existed belongs to the first one
+export const DEFAULT_OUTLET_ID = 'outlet-main';
+
+export interface OutletSummary {
+  outlet: Outlet;
+  sales: number;
+  expenses: number;
+  profit: number;
+  bills: number;
+  averageBill: number;
+  staffCount: number;
+  drawerDifference: number; // Sum of counted minus expected cash over closed days
+}
+
+export const defaultOutlet = (user: UserProfile): Outlet => ({
+  id: DEFAULT_OUTLET_ID,
+  name: user.businessName,
+  address: user.businessAddress,
+  location: user.location,
+  shopImage: user.shopImage,
+  businessDayCutoffHour: user.businessDayCutoffHour,
+  createdAt: new Date().toISOString()
+});
+
+// Outlets without their own cutoff follow the business-wide one
+export const cutoffFor = (outlets: Outlet[], user: UserProfile, outletId = DEFAULT_OUTLET_ID) =>
+  outlets.find(o => o.id === outletId)?.businessDayCutoffHour ?? user.businessDayCutoffHour ?? 0;
+
+// Returns the same array when nothing needed tagging, so unchanged collections are not rewritten
+export const withOutlet = <T extends { outletId?: string }>(items: T[], outletId = DEFAULT_OUTLET_ID) =>
+  items.some(i => !i.outletId) ? items.map(i => i.outletId ? i : { ...i, outletId }) : items;
+
+export const forOutlet = <T extends { outletId?: string }>(items: T[], outletId: string) =>
+  items.filter(i => i.outletId === outletId);
+
+export const transferStaff = (s: StaffMember, toOutletId: string, dateKey: string): StaffMember => ({
+  ...s,
+  outletId: toOutletId,
+  transfers: [...(s.transfers || []), { fromOutletId: s.outletId || DEFAULT_OUTLET_ID, toOutletId, date: dateKey }]
+});
+
+// Each outlet's figures use its own business-day cutoff
+export const outletSummaries = (outlets: Outlet[], user: UserProfile, transactions: Transaction[], staff: StaffMember[], dayCloses: DayClose[], range: PeriodRange): OutletSummary[] =>
+  outlets.map(outlet => {
+    const txns = filterByPeriod(forOutlet(transactions, outlet.id), range, cutoffFor(outlets, user, outlet.id));
+    const sales = txns.filter(countsAsSale);
+    const salesTotal = sales.reduce((sum, t) => sum + t.amount, 0);
+    const expenses = txns.filter(countsAsExpense).reduce((sum, t) => sum + t.amount, 0);
+    return {
+      outlet,
+      sales: salesTotal,
+      expenses,
+      profit: salesTotal - expenses,
+      bills: sales.length,
+      averageBill: sales.length ? Math.round(salesTotal / sales.length) : 0,
+      staffCount: forOutlet(staff, outlet.id).length,
+      drawerDifference: forOutlet(dayCloses, outlet.id)
+        .filter(c => !c.reopenedAt && c.date >= range.startKey && c.date <= range.endKey)
+        .reduce((sum, c) => sum + c.discrepancy, 0)
+    };
+  });
@@ -0,0 +1,45 @@
+import { OwnerPin, PinAttempts } from '../types';
+
+// The owner PIN is only ever stored as a salted PBKDF2 hash. It keeps a cashier holding the
+// phone away from edits, payroll, exports and settings; it is not encryption of the data.
+
+const PBKDF2_ITERATIONS = 100000;
+export const DEFAULT_LOCK_MINUTES = 5;
+export const LOCK_MINUTE_OPTIONS = [1, 2, 5, 10, 15, 30];
+export const MAX_PIN_ATTEMPTS = 5;
+const LOCKOUT_SECONDS = 30;
+
+const encoder = new TextEncoder();
+
+const toHex = (buf: ArrayBuffer | Uint8Array) =>
+  Array.from(buf instanceof Uint8Array ? buf : new Uint8Array(buf)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) || [], h => parseInt(h, 16));
+
+const derive = async (pin: string, salt: Uint8Array) => {
+  const base = await crypto.subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' }, base, 256);
+  return toHex(bits);
+};
+
+export const isValidPin = (pin: string) => /^\d{4,6}$/.test(pin);
+
+export const hashPin = async (pin: string): Promise<OwnerPin> => {
+  if (!isValidPin(pin)) throw new Error('PIN must be 4 to 6 digits.');
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { hash: await derive(pin, salt), salt: toHex(salt) };
+};
+
+export const verifyPin = async (pin: string, stored: OwnerPin) => {
+  if (!isValidPin(pin)) return false;
+  return (await derive(pin, fromHex(stored.salt))) === stored.hash;
+};
+
+export const NO_PIN_ATTEMPTS: PinAttempts = { failures: 0 };
+
+// Every run of MAX_PIN_ATTEMPTS wrong PINs locks the keypad, twice as long each time
+export const recordPinFailure = (attempts: PinAttempts, now = Date.now()): PinAttempts => {
+  const failures = attempts.failures + 1;
+  if (failures % MAX_PIN_ATTEMPTS) return { ...attempts, failures };
+  return { failures, lockedUntil: now + LOCKOUT_SECONDS * 1000 * 2 ** (failures / MAX_PIN_ATTEMPTS - 1) };
+};
@@ -0,0 +1,173 @@
+import { AttendanceStatus, PayrollPolicy, StaffMember, Transaction } from '../types';
+import { ATTENDANCE_STATUSES, SHIFT_HOURS } from '../constants';
+import { addDays, daysInMonth, getBusinessDateKey } from './dateUtils';
+
+// The original protocol: 40% paid weekly, 60% held until month end
+export const DEFAULT_PAY_POLICY: PayrollPolicy = {
+  frequency: 'WEEKLY',
+  payoutPercent: 40,
+  holdRelease: 'MONTH_END'
+};
+
+// Staff saved before pay policies existed get the 40/60 default
+export const upgradeStaff = (s: StaffMember): StaffMember => ({
+  ...s,
+  payPolicy: s.payPolicy || { ...DEFAULT_PAY_POLICY },
+  attendance: s.attendance || [],
+  advances: s.advances || []
+});
+
+export const grossPerPayout = (s: StaffMember) => {
+  switch (s.payPolicy.frequency) {
+    case 'DAILY': return s.payPolicy.dailyRate || 0;
+    case 'MONTHLY': return s.payPolicy.monthlySalary || 0;
+    default: return s.weeklyBasePay;
+  }
+};
+
+export const splitPayout = (gross: number, policy: PayrollPolicy) => {
+  const paidNow = Math.round(gross * policy.payoutPercent / 100);
+  return { paidNow, held: gross - paidNow };
+};
+
+// Monthly salary gets its own category so it is not mistaken for a release of held pay
+export const payoutCategory = (policy: PayrollPolicy) =>
+  policy.frequency === 'MONTHLY' ? 'Staff - Salary' : 'Staff - Weekly';
+
+export const outstandingAdvance = (s: StaffMember) =>
+  s.advances.reduce((sum, a) => sum + a.amount - a.recovered, 0);
+
+// Oldest advances are recovered first; loans only take their installment per payout
+export const planAdvanceRecovery = (s: StaffMember, available: number) => {
+  let remaining = available;
+  let total = 0;
+  const recoveries: { advanceId: string; amount: number }[] = [];
+  const advances = [...s.advances].sort((a, b) => a.date.localeCompare(b.date)).map(a => {
+    const due = a.amount - a.recovered;
+    if (due <= 0 || remaining <= 0) return a;
+    const take = Math.min(due, a.installment > 0 ? a.installment : due, remaining);
+    remaining -= take;
+    total += take;
+    recoveries.push({ advanceId: a.id, amount: take });
+    return { ...a, recovered: a.recovered + take };
+  });
+  return { total, advances, recoveries };
+};
+
+// Takes a deleted pay entry back off the staff record. Returns the reason instead when that
+// cannot be done exactly, so the ledger and the staff tab never disagree.
+export const reversePayrollEntry = (s: StaffMember, t: Transaction): StaffMember | string => {
+  const p = t.payroll;
+  if (!p) return 'This pay entry was recorded before pay details were kept, so it cannot be removed from the ledger.';
+  if (p.advanceRecovered && !p.recoveries) return 'This pay entry recovered an advance before recoveries were tracked, so it cannot be removed from the ledger.';
+  const advances = s.advances.map(a => {
+    const recovered = (p.recoveries || []).filter(r => r.advanceId === a.id).reduce((sum, r) => sum + r.amount, 0);
+    return recovered ? { ...a, recovered: Math.max(0, a.recovered - recovered) } : a;
+  });
+
+  switch (p.kind) {
+    case 'ADVANCE': {
+      const advance = s.advances.find(a => a.transactionId === t.id);
+      if (advance && advance.recovered > 0) return `₹${advance.recovered} of this advance has already been taken back from ${s.name}'s pay.`;
+      return { ...s, advances: s.advances.filter(a => a.transactionId !== t.id) };
+    }
+    case 'PAYOUT': {
+      if (p.periodEnd && s.lastPaidThrough !== p.periodEnd) return `Only ${s.name}'s latest pay run can be removed.`;
+      if ((p.held || 0) > s.totalHeldBalance) return `Part of the pay this entry held has already been released to ${s.name}.`;
+      return {
+        ...s,
+        advances,
+        totalHeldBalance: s.totalHeldBalance - (p.held || 0),
+        lastPaidThrough: p.periodStart ? addDays(p.periodStart, -1) : s.lastPaidThrough
+      };
+    }
+    case 'HOLD_RELEASE':
+      return { ...s, advances, totalHeldBalance: s.totalHeldBalance + p.gross };
+  }
+};
+
+export const describePolicy = (policy: PayrollPolicy) => {
+  const freq = policy.frequency.charAt(0) + policy.frequency.slice(1).toLowerCase();
+  if (policy.payoutPercent >= 100) return `${freq}, paid in full`;
+  const release = policy.holdRelease === 'MONTH_END' ? 'released at month end' : 'released on request';
+  return `${freq}, ${policy.payoutPercent}% now / ${100 - policy.payoutPercent}% held, ${release}`;
+};
+
+export const isMonthEndWindow = (now = new Date()) => {
+  const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+  return lastDay - now.getDate() < 3;
+};
+
+export interface PayBreakdown {
+  startKey: string;
+  endKey: string;
+  days: number;
+  counts: Record<AttendanceStatus | 'UNMARKED', number>;
+  overtimeHours: number;
+  base: number;
+  deduction: number;
+  overtimePay: number;
+  gross: number;
+}
+
+// The span a payout covers: everything since the last payout, or the current pay cycle for a
+// first payout, never starting before the joining date. catchUp flags a span that reaches back
+// past the current cycle because earlier days were left unpaid.
+export const payPeriodFor = (s: StaffMember, todayKey: string, cutoffHour = 0) => {
+  const cycleStart = s.payPolicy.frequency === 'DAILY' ? todayKey
+    : s.payPolicy.frequency === 'WEEKLY' ? addDays(todayKey, -6)
+    : todayKey.slice(0, 8) + '01';
+  const joinedKey = getBusinessDateKey(s.joinedDate, cutoffHour);
+  const afterLastPaid = s.lastPaidThrough ? addDays(s.lastPaidThrough, 1) : cycleStart;
+  const startKey = joinedKey > afterLastPaid ? joinedKey : afterLastPaid;
+  return { startKey, endKey: todayKey, catchUp: startKey < cycleStart };
+};
+
+// Unmarked days count as worked so the register only needs exceptions recorded
+export const computeAttendancePay = (s: StaffMember, startKey: string, endKey: string): PayBreakdown => {
+  const counts: PayBreakdown['counts'] = { PRESENT: 0, HALF_DAY: 0, ABSENT: 0, LEAVE: 0, UNMARKED: 0 };
+  let overtimeHours = 0;
+  let unpaidDays = 0;
+  let days = 0;
+
+  for (let key = startKey; key <= endKey; key = addDays(key, 1)) {
+    days++;
+    const entry = s.attendance.find(a => a.date === key);
+    if (!entry) {
+      counts.UNMARKED++;
+      continue;
+    }
+    counts[entry.status]++;
+    overtimeHours += entry.overtimeHours || 0;
+    unpaidDays += 1 - (ATTENDANCE_STATUSES.find(a => a.id === entry.status)?.payFactor ?? 1);
+  }
+
+  const policy = s.payPolicy;
+  const base = policy.frequency === 'DAILY' ? (policy.dailyRate || 0) * days
+    : policy.frequency === 'MONTHLY' ? (policy.monthlySalary || 0) * days / daysInMonth(endKey)
+    : s.weeklyBasePay * days / 7;
+  const rate = policy.dailyRate || (days ? base / days : 0);
+  const deduction = Math.round(unpaidDays * rate);
+  const overtimePay = Math.round(overtimeHours * rate / SHIFT_HOURS);
+
+  return {
+    startKey,
+    endKey,
+    days,
+    counts,
+    overtimeHours,
+    base: Math.round(base),
+    deduction,
+    overtimePay,
+    gross: Math.max(0, Math.round(base) - deduction + overtimePay)
+  };
+};
+
+export const describeBreakdown = (b: PayBreakdown) => {
+  const parts = [`${b.days}d`, `P${b.counts.PRESENT + b.counts.UNMARKED}`];
+  if (b.counts.HALF_DAY) parts.push(`½${b.counts.HALF_DAY}`);
+  if (b.counts.ABSENT) parts.push(`A${b.counts.ABSENT}`);
+  if (b.counts.LEAVE) parts.push(`L${b.counts.LEAVE}`);
+  if (b.overtimeHours) parts.push(`OT ${b.overtimeHours}h`);
+  return `${b.startKey} to ${b.endKey} (${parts.join(' ')}): base ₹${b.base} - ₹${b.deduction} + OT ₹${b.overtimePay} = ₹${b.gross}`;
+};
@@ -0,0 +1,113 @@
+// Minimal text-only PDF writer (A4, Helvetica) for payslips and statements.
+// The standard fonts only cover Windows-1252: ₹ is written as "Rs." and anything else outside
+// it prints as "?" with missingText set so the caller can warn.
+
+export interface PdfCell {
+  text: string;
+  x: number; // Points from the left margin
+}
+
+export interface PdfLine {
+  cells: PdfCell[];
+  size?: number;
+  bold?: boolean;
+  gapBefore?: number;
+  rule?: boolean; // Draw a horizontal line under the row
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+
+export interface PdfDocument {
+  blob: Blob;
+  missingText: boolean; // Some characters could not be shown and were printed as "?"
+}
+
+// Windows-1252 characters outside Latin-1, by their byte in the font encoding
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+const encodeChar = (ch: string) => {
+  if (ch === '\\' || ch === '(' || ch === ')') return `\\${ch}`;
+  const code = ch.charCodeAt(0);
+  if (ch.length === 1 && code >= 0x20 && code <= 0x7E) return ch;
+  const byte = ch.length === 1 && code >= 0xA0 && code <= 0xFF ? code : WIN_ANSI_EXTRAS[ch];
+  return byte ? `\\${byte.toString(8)}` : undefined;
+};
+
+const sanitize = (text: string) => {
+  let missing = false;
+  const encoded = Array.from(text.normalize('NFC').replace(/₹/g, 'Rs.'))
+    .map(ch => {
+      const out = encodeChar(ch);
+      if (out === undefined) missing = true;
+      return out ?? '?';
+    })
+    .join('');
+  return { encoded, missing };
+};
+
+export const pdfLine = (text: string, opts: Omit<PdfLine, 'cells'> = {}): PdfLine => ({ cells: [{ text, x: 0 }], ...opts });
+
+const layoutPages = (lines: PdfLine[]) => {
+  const pages: string[] = [];
+  let ops: string[] = [];
+  let missingText = false;
+  let y = PAGE_HEIGHT - MARGIN;
+
+  lines.forEach(line => {
+    const size = line.size || 10;
+    const advance = size * 1.4 + (line.gapBefore || 0);
+    if (y - advance < MARGIN) {
+      pages.push(ops.join('\n'));
+      ops = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= advance;
+    line.cells.forEach(cell => {
+      const { encoded, missing } = sanitize(cell.text);
+      if (missing) missingText = true;
+      ops.push(`BT /${line.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN + cell.x} ${y.toFixed(1)} Td (${encoded}) Tj ET`);
+    });
+    if (line.rule) {
+      const ry = (y - size * 0.4).toFixed(1);
+      ops.push(`0.5 w ${MARGIN} ${ry} m ${PAGE_WIDTH - MARGIN} ${ry} l S`);
+    }
+  });
+  pages.push(ops.join('\n'));
+  return { pages, missingText };
+};
+
+export const createPdf = (lines: PdfLine[]): PdfDocument => {
+  const { pages, missingText } = layoutPages(lines);
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  pages.forEach((content, i) => {
+    const pageId = pageIds[i];
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Everything above is ASCII, so string length equals byte offset
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = out.length;
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefAt = out.length;
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    out += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF`;
+
+  return { blob: new Blob([out], { type: 'application/pdf' }), missingText };
+};
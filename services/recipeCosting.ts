@@ -0,0 +1,86 @@
+import { MenuItem, StockItem, Transaction, TransactionType } from '../types';
+import { fromDateKey, getBusinessDateKey, toDateKey } from './dateUtils';
+import { latestUnitCost } from './inventory';
+
+// Recipes are priced at the latest purchase rate of each ingredient, so a supplier
+// raising the price of milk shows up in the cost per cup from that purchase on.
+
+export interface CostLine {
+  stockItemId: string;
+  name: string;
+  quantity: number;
+  rate: number; // ₹ per stock unit; 0 when the item has never been bought with a quantity
+  cost: number;
+}
+
+export interface ItemCost {
+  menuItemId: string;
+  name: string;
+  price: number;
+  cost: number;
+  margin: number;
+  marginPercent: number;
+  lines: CostLine[];
+  unpriced: string[]; // Ingredients with no purchase rate yet
+}
+
+export interface MarginPoint {
+  monthKey: string;
+  price: number;
+  cost: number;
+  margin: number;
+}
+
+export const costMenuItem = (item: MenuItem, stockItems: StockItem[], transactions: Transaction[], asOfKey?: string, cutoffHour = 0, price = item.price): ItemCost => {
+  const lines = (item.recipe || []).map(r => {
+    const stock = stockItems.find(s => s.id === r.stockItemId);
+    const rate = stock ? latestUnitCost(stock, transactions, asOfKey, cutoffHour) : 0;
+    return { stockItemId: r.stockItemId, name: stock?.name || 'Removed item', quantity: r.quantity, rate, cost: rate * r.quantity };
+  });
+  const cost = lines.reduce((sum, l) => sum + l.cost, 0);
+  return {
+    menuItemId: item.id,
+    name: item.name,
+    price,
+    cost,
+    margin: price - cost,
+    marginPercent: price > 0 ? Math.round(((price - cost) / price) * 100) : 0,
+    lines,
+    unpriced: lines.filter(l => !l.rate).map(l => l.name)
+  };
+};
+
+export const marginReport = (menu: MenuItem[], stockItems: StockItem[], transactions: Transaction[], cutoffHour = 0) =>
+  menu
+    .filter(m => !m.archived && m.recipe?.length)
+    .sort((a, b) => a.order - b.order)
+    .map(m => costMenuItem(m, stockItems, transactions, undefined, cutoffHour));
+
+// Average price actually charged for an item within a month, from Quick Sale bills
+const soldPrice = (item: MenuItem, transactions: Transaction[], monthKey: string, cutoffHour: number) => {
+  let quantity = 0;
+  let revenue = 0;
+  transactions.forEach(t => {
+    if (t.type !== TransactionType.INCOME || !t.lineItems) return;
+    if (getBusinessDateKey(t.date, cutoffHour).slice(0, 7) !== monthKey) return;
+    t.lineItems.filter(l => l.menuItemId === item.id).forEach(l => {
+      quantity += l.quantity;
+      revenue += l.price * l.quantity;
+    });
+  });
+  return quantity ? revenue / quantity : undefined;
+};
+
+// Cost and margin at the end of each of the last few months (this month up to today)
+export const marginTrend = (item: MenuItem, stockItems: StockItem[], transactions: Transaction[], months = 6, cutoffHour = 0): MarginPoint[] => {
+  const todayKey = getBusinessDateKey(new Date(), cutoffHour);
+  const today = fromDateKey(todayKey);
+  return Array.from({ length: months }, (_, i) => {
+    const back = months - 1 - i;
+    const monthKey = toDateKey(new Date(today.getFullYear(), today.getMonth() - back, 1)).slice(0, 7);
+    const monthEnd = back === 0 ? todayKey : toDateKey(new Date(today.getFullYear(), today.getMonth() - back + 1, 0));
+    const price = soldPrice(item, transactions, monthKey, cutoffHour) ?? item.price;
+    const c = costMenuItem(item, stockItems, transactions, monthEnd, cutoffHour, price);
+    return { monthKey, price, cost: c.cost, margin: c.margin };
+  });
+};
@@ -0,0 +1,88 @@
+import { DayClose, RecurringExpense, Transaction, TransactionType } from '../types';
+import { addDays, daysBetween, formatDateKey, fromDateKey, toDateKey } from './dateUtils';
+import { findDayClose } from './cashDrawer';
+
+// Keeps the start date's day of month, clamped to the last day of shorter months
+const monthlyDue = (startDate: string, year: number, monthIndex: number) => {
+  const last = new Date(year, monthIndex + 1, 0).getDate();
+  return toDateKey(new Date(year, monthIndex, Math.min(Number(startDate.slice(8)), last)));
+};
+
+// First due date strictly after `afterKey` (or the start date when nothing has been posted)
+export const nextDueDate = (schedule: RecurringExpense, afterKey?: string) => {
+  if (!afterKey || afterKey < schedule.startDate) return schedule.startDate;
+  switch (schedule.rule) {
+    case 'DAILY':
+      return addDays(afterKey, 1);
+    case 'WEEKLY':
+      return addDays(schedule.startDate, (Math.floor(daysBetween(schedule.startDate, afterKey) / 7) + 1) * 7);
+    case 'MONTHLY': {
+      const d = fromDateKey(afterKey);
+      const due = monthlyDue(schedule.startDate, d.getFullYear(), d.getMonth());
+      return due > afterKey ? due : monthlyDue(schedule.startDate, d.getFullYear(), d.getMonth() + 1);
+    }
+  }
+};
+
+// Every due date not yet posted, up to and including today, oldest first
+export const missedDueDates = (schedule: RecurringExpense, todayKey: string) => {
+  const dates: string[] = [];
+  if (schedule.paused) return dates;
+  for (let due = nextDueDate(schedule, schedule.lastPostedDate); due <= todayKey; due = nextDueDate(schedule, due)) {
+    dates.push(due);
+  }
+  return dates;
+};
+
+// Back-dated entries land at midday on their due date. A due date whose drawer is
+// already closed is posted today instead, so a counted day never changes underneath.
+const postingFor = (schedule: RecurringExpense, dueKey: string, todayKey: string, dayCloses: DayClose[]): Transaction => {
+  const closed = dueKey !== todayKey && !!findDayClose(dayCloses.filter(c => c.outletId === schedule.outletId), dueKey);
+  const backDated = dueKey !== todayKey && !closed;
+  const when = backDated ? fromDateKey(dueKey) : new Date();
+  if (backDated) when.setHours(12);
+  return {
+    id: `rec-${schedule.id}-${dueKey}`,
+    date: when.toISOString(),
+    amount: schedule.amount,
+    category: schedule.category,
+    type: TransactionType.EXPENSE,
+    paymentMethod: schedule.paymentMethod,
+    notes: closed ? `${schedule.name} (due ${formatDateKey(dueKey)})` : schedule.name,
+    recurringId: schedule.id,
+    needsReview: true,
+    outletId: schedule.outletId
+  };
+};
+
+// Posts everything that has fallen due since each schedule last ran, including periods
+// missed while the app was closed. Ids are derived from the due date, so a due date
+// that is already in the ledger is never posted twice. "Today" depends on the outlet's cutoff.
+export const postDueExpenses = (schedules: RecurringExpense[], transactions: Transaction[], dayCloses: DayClose[], todayKeyFor: (outletId?: string) => string) => {
+  const existing = new Set(transactions.map(t => t.id));
+  const posted: Transaction[] = [];
+  const updated = schedules.map(s => {
+    const todayKey = todayKeyFor(s.outletId);
+    const dates = missedDueDates(s, todayKey);
+    if (!dates.length) return s;
+    dates.forEach(due => {
+      const t = postingFor(s, due, todayKey, dayCloses);
+      if (!existing.has(t.id)) posted.push(t);
+    });
+    return { ...s, lastPostedDate: dates[dates.length - 1] };
+  });
+  return { posted, schedules: updated };
+};
+
+// Resuming skips the periods that fell while paused rather than catching them up
+export const setSchedulePaused = (schedule: RecurringExpense, paused: boolean, todayKey: string): RecurringExpense => {
+  if (paused) return { ...schedule, paused: true };
+  const yesterday = addDays(todayKey, -1);
+  return {
+    ...schedule,
+    paused: undefined,
+    lastPostedDate: schedule.lastPostedDate && schedule.lastPostedDate > yesterday ? schedule.lastPostedDate : yesterday
+  };
+};
+
+export const reviewQueue = (transactions: Transaction[]) => transactions.filter(t => t.needsReview);
@@ -0,0 +1,55 @@
+import { ReportingPeriod, Transaction } from '../types';
+import { addDays, formatDateKey, fromDateKey, getBusinessDateKey, toDateKey } from './dateUtils';
+
+export interface PeriodRange {
+  startKey: string;
+  endKey: string; // inclusive
+  label: string;
+}
+
+export const PERIOD_PRESETS: { id: ReportingPeriod['preset']; label: string }[] = [
+  { id: 'TODAY', label: 'Today' },
+  { id: 'YESTERDAY', label: 'Yesterday' },
+  { id: 'THIS_WEEK', label: 'Week' },
+  { id: 'THIS_MONTH', label: 'Month' },
+  { id: 'CUSTOM', label: 'Custom' }
+];
+
+export const DEFAULT_PERIOD: ReportingPeriod = { preset: 'TODAY' };
+
+export const resolvePeriod = (period: ReportingPeriod, cutoffHour = 0, now = new Date()): PeriodRange => {
+  const today = getBusinessDateKey(now, cutoffHour);
+
+  switch (period.preset) {
+    case 'YESTERDAY': {
+      const y = addDays(today, -1);
+      return { startKey: y, endKey: y, label: 'Yesterday' };
+    }
+    case 'THIS_WEEK': {
+      // Weeks start on Monday
+      const offset = (fromDateKey(today).getDay() + 6) % 7;
+      return { startKey: addDays(today, -offset), endKey: today, label: 'This Week' };
+    }
+    case 'THIS_MONTH': {
+      const d = fromDateKey(today);
+      return { startKey: toDateKey(new Date(d.getFullYear(), d.getMonth(), 1)), endKey: today, label: 'This Month' };
+    }
+    case 'CUSTOM': {
+      let start = period.customStart || today;
+      let end = period.customEnd || start;
+      if (end < start) [start, end] = [end, start];
+      const label = start === end ? formatDateKey(start) : `${formatDateKey(start)} – ${formatDateKey(end)}`;
+      return { startKey: start, endKey: end, label };
+    }
+    default:
+      return { startKey: today, endKey: today, label: 'Today' };
+  }
+};
+
+export const isInRange = (date: string, range: PeriodRange, cutoffHour = 0) => {
+  const key = getBusinessDateKey(date, cutoffHour);
+  return key >= range.startKey && key <= range.endKey;
+};
+
+export const filterByPeriod = (transactions: Transaction[], range: PeriodRange, cutoffHour = 0) =>
+  transactions.filter(t => isInRange(t.date, range, cutoffHour));
@@ -0,0 +1,155 @@
+import { HeldPayRun, StaffMember, Transaction, TransactionType, UserProfile } from '../types';
+import { formatDateKey, getBusinessDateKey, monthLabel } from './dateUtils';
+import { describePolicy, outstandingAdvance } from './payroll';
+import { PdfLine, createPdf, pdfLine } from './pdf';
+
+export interface StatementRow {
+  id: string;
+  date: string;
+  description: string;
+  earned: number;
+  held: number;
+  released: number;
+  advance: number;
+  recovered: number;
+  cashPaid: number;
+}
+
+export interface StaffStatement {
+  monthKey: string; // YYYY-MM
+  rows: StatementRow[];
+  openingHeld: number;
+  closingHeld: number;
+  totals: Omit<StatementRow, 'id' | 'date' | 'description'>;
+}
+
+// Entries recorded before payroll detail existed only carry the held amount in their notes
+export const toStatementRow = (t: Transaction): StatementRow => {
+  const row: StatementRow = { id: t.id, date: t.date, description: t.notes || t.category, earned: 0, held: 0, released: 0, advance: 0, recovered: 0, cashPaid: t.amount };
+  const p = t.payroll;
+  if (p?.kind === 'PAYOUT') return { ...row, earned: p.gross, held: p.held || 0, recovered: p.advanceRecovered || 0 };
+  if (p?.kind === 'HOLD_RELEASE') return { ...row, released: p.gross, recovered: p.advanceRecovered || 0 };
+  if (p?.kind === 'ADVANCE') return { ...row, advance: p.gross };
+
+  if (t.category === 'Staff - Weekly') {
+    const held = Number(t.notes?.match(/Held: ₹([\d.]+)/)?.[1] || 0);
+    return { ...row, earned: t.amount + held, held };
+  }
+  if (t.category === 'Staff - Month End') return { ...row, released: t.amount };
+  if (t.category === 'Staff - Advance') return { ...row, advance: t.amount };
+  return row;
+};
+
+export const heldRunRow = (run: HeldPayRun): StatementRow => ({
+  id: run.id,
+  date: run.date,
+  description: `Pay for ${formatDateKey(run.periodStart)} – ${formatDateKey(run.periodEnd)} held in full`,
+  earned: run.gross,
+  held: run.gross,
+  released: 0,
+  advance: 0,
+  recovered: 0,
+  cashPaid: 0
+});
+
+export const buildStaffStatement = (s: StaffMember, transactions: Transaction[], monthKey: string, cutoffHour = 0): StaffStatement => {
+  const staffRows = [
+    ...transactions.filter(t => t.staffId === s.id && t.type === TransactionType.EXPENSE).map(toStatementRow),
+    ...(s.heldPayRuns || []).map(heldRunRow)
+  ]
+    .map(row => ({ key: getBusinessDateKey(row.date, cutoffHour).slice(0, 7), row }))
+    .sort((a, b) => a.row.date.localeCompare(b.row.date));
+
+  const openingHeld = staffRows
+    .filter(r => r.key < monthKey)
+    .reduce((sum, r) => sum + r.row.held - r.row.released, 0);
+  const rows = staffRows.filter(r => r.key === monthKey).map(r => r.row);
+
+  const totals = rows.reduce((acc, r) => ({
+    earned: acc.earned + r.earned,
+    held: acc.held + r.held,
+    released: acc.released + r.released,
+    advance: acc.advance + r.advance,
+    recovered: acc.recovered + r.recovered,
+    cashPaid: acc.cashPaid + r.cashPaid
+  }), { earned: 0, held: 0, released: 0, advance: 0, recovered: 0, cashPaid: 0 });
+
+  return { monthKey, rows, openingHeld, closingHeld: openingHeld + totals.held - totals.released, totals };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const summaryItems = (st: StaffStatement, s: StaffMember): [string, number][] => [
+  ['Held balance at start of month', st.openingHeld],
+  ['Earned this month', st.totals.earned],
+  ['Added to hold', st.totals.held],
+  ['Released from hold', st.totals.released],
+  ['Advances given', st.totals.advance],
+  ['Advances recovered', st.totals.recovered],
+  ['Cash handed over', st.totals.cashPaid],
+  ['Held balance at end of month', st.closingHeld],
+  ['Advance still outstanding (today)', outstandingAdvance(s)]
+];
+
+export const renderStatementHtml = (st: StaffStatement, s: StaffMember, user: UserProfile) => `<!DOCTYPE html>
+<html><head><meta charset="UTF-8"><title>Statement - ${escapeHtml(s.name)} - ${monthLabel(st.monthKey)}</title>
+<style>
+  body { font-family: Arial, sans-serif; color: #1c1917; margin: 32px; font-size: 12px; }
+  h1 { margin: 0; font-size: 20px; } h2 { font-size: 14px; margin: 24px 0 8px; }
+  table { width: 100%; border-collapse: collapse; } th, td { border-bottom: 1px solid #e7e5e4; padding: 6px 4px; text-align: left; }
+  td.num, th.num { text-align: right; } .muted { color: #78716c; }
+  .sign { display: flex; justify-content: space-between; margin-top: 64px; } .sign div { border-top: 1px solid #1c1917; width: 40%; padding-top: 4px; }
+</style></head>
+<body>
+  <h1>${escapeHtml(user.businessName)}</h1>
+  <p class="muted">${escapeHtml(user.businessAddress)}</p>
+  <h2>Payslip &amp; Statement of Account — ${monthLabel(st.monthKey)}</h2>
+  <p><b>${escapeHtml(s.name)}</b> (ID ${s.id.slice(-4)}) · ${escapeHtml(s.phone)}<br/><span class="muted">${escapeHtml(describePolicy(s.payPolicy))}</span></p>
+  <table>
+    <thead><tr><th>Date</th><th>Details</th><th class="num">Earned</th><th class="num">Held</th><th class="num">Released</th><th class="num">Advance</th><th class="num">Recovered</th><th class="num">Paid</th></tr></thead>
+    <tbody>
+      ${st.rows.map(r => `<tr><td>${new Date(r.date).toLocaleDateString('en-IN')}</td><td>${escapeHtml(r.description)}</td><td class="num">${r.earned || ''}</td><td class="num">${r.held || ''}</td><td class="num">${r.released || ''}</td><td class="num">${r.advance || ''}</td><td class="num">${r.recovered || ''}</td><td class="num">${r.cashPaid}</td></tr>`).join('\n      ') || '<tr><td colspan="8" class="muted">No payroll entries this month.</td></tr>'}
+    </tbody>
+  </table>
+  <h2>Summary</h2>
+  <table>
+    ${summaryItems(st, s).map(([label, value]) => `<tr><td>${label}</td><td class="num">₹${value}</td></tr>`).join('\n    ')}
+  </table>
+  <div class="sign"><div>Employer</div><div>Received by ${escapeHtml(s.name)}</div></div>
+</body></html>`;
+
+export const renderStatementPdf = (st: StaffStatement, s: StaffMember, user: UserProfile) => {
+  const cols = [0, 60, 260, 305, 350, 395, 440, 485];
+  const lines: PdfLine[] = [
+    pdfLine(user.businessName, { size: 16, bold: true }),
+    pdfLine(user.businessAddress, { size: 9 }),
+    pdfLine(`Payslip & Statement of Account - ${monthLabel(st.monthKey)}`, { size: 12, bold: true, gapBefore: 12 }),
+    pdfLine(`${s.name} (ID ${s.id.slice(-4)}) - ${s.phone}`),
+    pdfLine(describePolicy(s.payPolicy), { size: 9 }),
+    {
+      cells: ['Date', 'Details', 'Earned', 'Held', 'Released', 'Advance', 'Recovered', 'Paid'].map((text, i) => ({ text, x: cols[i] })),
+      bold: true,
+      size: 9,
+      gapBefore: 10,
+      rule: true
+    },
+    ...st.rows.map(r => ({
+      cells: [
+        new Date(r.date).toLocaleDateString('en-IN'),
+        r.description.slice(0, 38),
+        r.earned ? r.earned.toString() : '',
+        r.held ? r.held.toString() : '',
+        r.released ? r.released.toString() : '',
+        r.advance ? r.advance.toString() : '',
+        r.recovered ? r.recovered.toString() : '',
+        r.cashPaid.toString()
+      ].map((text, i) => ({ text, x: cols[i] })),
+      size: 9
+    })),
+    pdfLine('Summary', { bold: true, size: 11, gapBefore: 14 }),
+    ...summaryItems(st, s).map(([label, value]) => ({ cells: [{ text: label, x: 0 }, { text: `₹${value}`, x: 300 }], size: 10 })),
+    { cells: [{ text: 'Employer', x: 0 }, { text: `Received by ${s.name}`, x: 300 }], gapBefore: 60 }
+  ];
+  return createPdf(lines);
+};
@@ -0,0 +1,297 @@
+import { AuditEntry, Category, Customer, DayClose, MenuItem, Outlet, PinAttempts, RecurringExpense, ReportingPeriod, StaffMember, StockCount, StockItem, Supplier, Transaction, UserProfile } from '../types';
+import { upgradeStaff } from './payroll';
+
+// IndexedDB persistence. Each entity gets its own object store; small singletons
+// (profile, selected period, bookkeeping flags) live in the key-value "settings" store.
+
+const DB_NAME = 'chai_insights';
+
+// Record type held by each collection store
+export interface CollectionTypes {
+  transactions: Transaction;
+  staff: StaffMember;
+  dayCloses: DayClose;
+  categories: Category;
+  stockItems: StockItem;
+  stockCounts: StockCount;
+  menuItems: MenuItem;
+  customers: Customer;
+  suppliers: Supplier;
+  recurringExpenses: RecurringExpense;
+  outlets: Outlet;
+  auditLog: AuditEntry;
+}
+
+export type CollectionStore = keyof CollectionTypes;
+
+export const COLLECTION_STORES: CollectionStore[] = ['transactions', 'staff', 'dayCloses', 'categories', 'stockItems', 'stockCounts', 'menuItems', 'customers', 'suppliers', 'recurringExpenses', 'outlets', 'auditLog'];
+
+type RecordUpgrades = { [K in CollectionStore]?: (record: CollectionTypes[K]) => CollectionTypes[K] };
+
+// Rewrites of stored records, keyed by the schema version that brought them in. That version's
+// migration applies them to the database; older backups and legacy data get them on the way in.
+const RECORD_UPGRADES: Record<number, RecordUpgrades> = {
+  10: { staff: upgradeStaff }
+};
+
+const rewriteRecords = (tx: IDBTransaction, upgrades: RecordUpgrades) => {
+  (Object.keys(upgrades) as CollectionStore[]).forEach(store => {
+    const upgrade = upgrades[store] as (record: unknown) => unknown;
+    const req = tx.objectStore(store).openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      cursor.update(upgrade(cursor.value));
+      cursor.continue();
+    };
+  });
+};
+
+// Each migration upgrades the schema by one version. Never edit a shipped
+// migration — append a new one and the version number follows.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: initial schema
+  db => {
+    const transactions = db.createObjectStore('transactions', { keyPath: 'id' });
+    transactions.createIndex('date', 'date');
+    transactions.createIndex('type', 'type');
+    transactions.createIndex('staffId', 'staffId');
+    db.createObjectStore('staff', { keyPath: 'id' });
+    const dayCloses = db.createObjectStore('dayCloses', { keyPath: 'id' });
+    dayCloses.createIndex('date', 'date', { unique: true });
+    db.createObjectStore('settings');
+  },
+  // v2: user-managed categories
+  db => {
+    db.createObjectStore('categories', { keyPath: 'id' });
+  },
+  // v3: raw-material inventory
+  (db, tx) => {
+    db.createObjectStore('stockItems', { keyPath: 'id' });
+    const stockCounts = db.createObjectStore('stockCounts', { keyPath: 'id' });
+    stockCounts.createIndex('itemId', 'itemId');
+    tx.objectStore('transactions').createIndex('stockItemId', 'stockItemId');
+  },
+  // v4: menu catalogue for the POS screen
+  db => {
+    db.createObjectStore('menuItems', { keyPath: 'id' });
+  },
+  // v5: customer credit accounts
+  (db, tx) => {
+    db.createObjectStore('customers', { keyPath: 'id' });
+    tx.objectStore('transactions').createIndex('customerId', 'customerId');
+  },
+  // v6: supplier accounts and payables
+  (db, tx) => {
+    db.createObjectStore('suppliers', { keyPath: 'id' });
+    tx.objectStore('transactions').createIndex('supplierId', 'supplierId');
+  },
+  // v7: recurring expense schedules
+  db => {
+    db.createObjectStore('recurringExpenses', { keyPath: 'id' });
+  },
+  // v8: outlets; each outlet closes its own drawer, so a date is no longer unique
+  (db, tx) => {
+    db.createObjectStore('outlets', { keyPath: 'id' });
+    tx.objectStore('transactions').createIndex('outletId', 'outletId');
+    const dayCloses = tx.objectStore('dayCloses');
+    dayCloses.deleteIndex('date');
+    dayCloses.createIndex('date', 'date');
+    dayCloses.createIndex('outletId', 'outletId');
+  },
+  // v9: ledger change log
+  db => {
+    const auditLog = db.createObjectStore('auditLog', { keyPath: 'id' });
+    auditLog.createIndex('transactionId', 'transactionId');
+  },
+  // v10: staff saved before pay policies, attendance and advances existed
+  (_db, tx) => rewriteRecords(tx, RECORD_UPGRADES[10])
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+// Brings records written at an older schema version (a backup, legacy storage) up to this one
+export const upgradeRecords = <K extends CollectionStore>(store: K, records: CollectionTypes[K][], fromVersion: number) => {
+  let result = records;
+  for (let v = fromVersion + 1; v <= DB_VERSION; v++) {
+    const upgrade = RECORD_UPGRADES[v]?.[store] as ((record: CollectionTypes[K]) => CollectionTypes[K]) | undefined;
+    if (upgrade) result = result.map(upgrade);
+  }
+  return result;
+};
+
+// Keys the app used when everything lived in localStorage
+const LEGACY_KEYS: { key: string; store: CollectionStore | 'settings'; setting?: string }[] = [
+  { key: 'chai_user', store: 'settings', setting: 'user' },
+  { key: 'chai_period', store: 'settings', setting: 'period' },
+  { key: 'chai_transactions', store: 'transactions' },
+  { key: 'chai_staff', store: 'staff' },
+  { key: 'chai_day_closes', store: 'dayCloses' }
+];
+
+const promisify = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = event => {
+        const tx = req.transaction!;
+        for (let v = event.oldVersion; v < DB_VERSION; v++) MIGRATIONS[v](req.result, tx);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error('Close other ChaiInsights tabs to finish upgrading the database.'));
+    });
+  }
+  return dbPromise;
+};
+
+export const getAll = async <T>(store: CollectionStore) => {
+  const db = await openDb();
+  return promisify(db.transaction(store).objectStore(store).getAll()) as Promise<T[]>;
+};
+
+export const getSetting = async <T>(key: string) => {
+  const db = await openDb();
+  return promisify(db.transaction('settings').objectStore('settings').get(key)) as Promise<T | undefined>;
+};
+
+export const putSetting = async (key: string, value: unknown) => {
+  const db = await openDb();
+  const tx = db.transaction('settings', 'readwrite');
+  tx.objectStore('settings').put(value, key);
+  return completion(tx);
+};
+
+// React state is updated immutably, so unchanged records keep their object identity.
+// Only records that are new or replaced since the last sync get written.
+export const syncStore = async <T extends { id: string }>(store: CollectionStore, next: T[], prev: T[]) => {
+  const before = new Map(prev.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  const changed = next.filter(item => before.get(item.id) !== item);
+  const removed = prev.filter(item => !nextIds.has(item.id));
+  if (!changed.length && !removed.length) return;
+
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  changed.forEach(item => os.put(item));
+  removed.forEach(item => os.delete(item.id));
+  return completion(tx);
+};
+
+// One-time copy of the old localStorage blobs. The keys are removed only after
+// the IndexedDB transaction commits so an interrupted import can simply rerun.
+// A key that no longer parses is set aside under "<key>_unreadable" and reported,
+// so one damaged blob cannot block the rest of the data from loading.
+const importLegacyStorage = async (db: IDBDatabase): Promise<string[]> => {
+  const parsed: { key: typeof LEGACY_KEYS[number]; value: unknown }[] = [];
+  const unreadable: string[] = [];
+  LEGACY_KEYS.forEach(k => {
+    const raw = localStorage.getItem(k.key);
+    if (raw === null) return;
+    try {
+      const value: unknown = JSON.parse(raw);
+      if (!k.setting && !Array.isArray(value)) throw new Error(`${k.key} is not a list`);
+      parsed.push({ key: k, value });
+    } catch (err) {
+      console.error("Storage Error:", err);
+      unreadable.push(k.key);
+      try {
+        localStorage.setItem(`${k.key}_unreadable`, raw);
+        localStorage.removeItem(k.key);
+      } catch {
+        // No room for the copy; leave the key where it is and report it again next time
+      }
+    }
+  });
+  if (!parsed.length) return unreadable;
+
+  const stores = Array.from(new Set(parsed.map(p => p.key.store)));
+  const tx = db.transaction(stores, 'readwrite');
+  parsed.forEach(({ key: k, value }) => {
+    const os = tx.objectStore(k.store);
+    if (k.setting) os.put(value, k.setting);
+    else upgradeRecords(k.store as CollectionStore, value as CollectionTypes[CollectionStore][], 0).forEach(item => os.put(item));
+  });
+  await completion(tx);
+  parsed.forEach(p => localStorage.removeItem(p.key.key));
+  return unreadable;
+};
+
+export interface StoredData {
+  user?: UserProfile;
+  period?: ReportingPeriod;
+  activeOutletId?: string;
+  pinAttempts?: PinAttempts;
+  transactions: Transaction[];
+  staff: StaffMember[];
+  dayCloses: DayClose[];
+  categories: Category[];
+  stockItems: StockItem[];
+  stockCounts: StockCount[];
+  menuItems: MenuItem[];
+  customers: Customer[];
+  suppliers: Supplier[];
+  recurringExpenses: RecurringExpense[];
+  outlets: Outlet[];
+  auditLog: AuditEntry[];
+  unreadableLegacyKeys: string[]; // Old localStorage data that could not be imported
+}
+
+export const loadAll = async (): Promise<StoredData> => {
+  const db = await openDb();
+  const unreadableLegacyKeys = await importLegacyStorage(db);
+
+  const [user, period, activeOutletId, pinAttempts, transactions, staff, dayCloses, categories, stockItems, stockCounts, menuItems, customers, suppliers, recurringExpenses, outlets, auditLog] = await Promise.all([
+    getSetting<UserProfile>('user'),
+    getSetting<ReportingPeriod>('period'),
+    getSetting<string>('activeOutlet'),
+    getSetting<PinAttempts>('pinAttempts'),
+    getAll<Transaction>('transactions'),
+    getAll<StaffMember>('staff'),
+    getAll<DayClose>('dayCloses'),
+    getAll<Category>('categories'),
+    getAll<StockItem>('stockItems'),
+    getAll<StockCount>('stockCounts'),
+    getAll<MenuItem>('menuItems'),
+    getAll<Customer>('customers'),
+    getAll<Supplier>('suppliers'),
+    getAll<RecurringExpense>('recurringExpenses'),
+    getAll<Outlet>('outlets'),
+    getAll<AuditEntry>('auditLog')
+  ]);
+
+  return {
+    user,
+    period,
+    activeOutletId,
+    pinAttempts,
+    // The app keeps the ledger newest-first
+    transactions: transactions.sort((a, b) => b.date.localeCompare(a.date)),
+    staff: staff.sort((a, b) => a.joinedDate.localeCompare(b.joinedDate)),
+    dayCloses,
+    categories: categories.sort((a, b) => a.order - b.order),
+    stockItems: stockItems.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    stockCounts,
+    menuItems: menuItems.sort((a, b) => a.order - b.order),
+    customers: customers.sort((a, b) => a.name.localeCompare(b.name)),
+    suppliers: suppliers.sort((a, b) => a.name.localeCompare(b.name)),
+    recurringExpenses: recurringExpenses.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    outlets: outlets.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    auditLog: auditLog.sort((a, b) => a.at.localeCompare(b.at)),
+    unreadableLegacyKeys
+  };
+};
@@ -0,0 +1,107 @@
+import { PaymentMethod, Supplier, Transaction, TransactionType } from '../types';
+import { addDays, daysBetween, getBusinessDateKey } from './dateUtils';
+import { SUPPLIER_PAYMENT_CATEGORY } from './categories';
+
+// A bill is an expense paid by CREDIT: it counts as spending on the day it is delivered
+// but takes no money out of the drawer. Payments against it move the money and are left
+// out of expense totals so the purchase is not counted twice.
+
+export interface BillStatus {
+  bill: Transaction;
+  paid: number;
+  balance: number;
+  dueDate: string;
+  overdueDays: number; // Days past the due date; zero or negative while not yet due
+}
+
+export interface SupplierPayables {
+  supplier: Supplier;
+  outstanding: number;
+  openBills: BillStatus[]; // Earliest due first
+  nextDue?: string;
+  overdue: number;
+}
+
+export const isSupplierBill = (t: Transaction) => t.type === TransactionType.EXPENSE && t.paymentMethod === 'CREDIT';
+
+export const isSupplierPayment = (t: Transaction) =>
+  t.type === TransactionType.EXPENSE && !!t.supplierId && t.paymentMethod !== 'CREDIT';
+
+// Expense totals include bills on delivery and leave out the payments that clear them
+export const countsAsExpense = (t: Transaction) => t.type === TransactionType.EXPENSE && !isSupplierPayment(t);
+
+export const defaultDueDate = (supplier: Supplier, deliveredOn: string) => addDays(deliveredOn, supplier.paymentTermsDays);
+
+export const billStatuses = (supplierId: string, transactions: Transaction[], todayKey: string, cutoffHour = 0): BillStatus[] => {
+  const paidByBill = transactions.reduce((acc, t) => {
+    if (isSupplierPayment(t) && t.billId) acc[t.billId] = (acc[t.billId] || 0) + t.amount;
+    return acc;
+  }, {} as Record<string, number>);
+  return transactions
+    .filter(t => isSupplierBill(t) && t.supplierId === supplierId)
+    .map(bill => {
+      const paid = paidByBill[bill.id] || 0;
+      const dueDate = bill.dueDate || getBusinessDateKey(bill.date, cutoffHour);
+      return { bill, paid, balance: bill.amount - paid, dueDate, overdueDays: daysBetween(dueDate, todayKey) };
+    })
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+};
+
+export const supplierPayables = (supplier: Supplier, transactions: Transaction[], todayKey: string, cutoffHour = 0): SupplierPayables => {
+  const statuses = billStatuses(supplier.id, transactions, todayKey, cutoffHour);
+  const billed = statuses.reduce((sum, s) => sum + s.bill.amount, 0);
+  // Counted from every payment so one left behind by a deleted bill still reduces the balance
+  const paid = transactions.filter(t => isSupplierPayment(t) && t.supplierId === supplier.id).reduce((sum, t) => sum + t.amount, 0);
+  const openBills = statuses.filter(s => s.balance > 0);
+  return {
+    supplier,
+    outstanding: billed - paid,
+    openBills,
+    nextDue: openBills[0]?.dueDate,
+    overdue: openBills.filter(s => s.overdueDays > 0).reduce((sum, s) => sum + s.balance, 0)
+  };
+};
+
+// Suppliers we owe money to, soonest due first
+export const payablesList = (suppliers: Supplier[], transactions: Transaction[], todayKey: string, cutoffHour = 0) =>
+  suppliers
+    .map(s => supplierPayables(s, transactions, todayKey, cutoffHour))
+    .filter(p => p.outstanding > 0)
+    .sort((a, b) => (a.nextDue || '9999').localeCompare(b.nextDue || '9999') || b.outstanding - a.outstanding);
+
+// Open bills that are overdue or fall due within the next few days
+export const billsDueSoon = (suppliers: Supplier[], transactions: Transaction[], todayKey: string, cutoffHour = 0, withinDays = 3) =>
+  suppliers
+    .flatMap(supplier => billStatuses(supplier.id, transactions, todayKey, cutoffHour)
+      .filter(s => s.balance > 0 && s.overdueDays >= -withinDays)
+      .map(s => ({ ...s, supplier })))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+export const buildBill = (
+  supplier: Supplier,
+  bill: { amount: number; category: string; dueDate: string; notes?: string; stockItemId?: string; quantity?: number }
+): Transaction => ({
+  id: Date.now().toString(),
+  date: new Date().toISOString(),
+  amount: bill.amount,
+  category: bill.category,
+  type: TransactionType.EXPENSE,
+  paymentMethod: 'CREDIT',
+  notes: bill.notes || `Bill from ${supplier.name}`,
+  stockItemId: bill.stockItemId,
+  quantity: bill.quantity,
+  supplierId: supplier.id,
+  dueDate: bill.dueDate
+});
+
+export const buildSupplierPayment = (supplier: Supplier, bill: Transaction, amount: number, paymentMethod: PaymentMethod, notes?: string): Transaction => ({
+  id: Date.now().toString(),
+  date: new Date().toISOString(),
+  amount,
+  category: SUPPLIER_PAYMENT_CATEGORY,
+  type: TransactionType.EXPENSE,
+  paymentMethod,
+  notes: notes || `Paid ${supplier.name}`,
+  supplierId: supplier.id,
+  billId: bill.id
+});
@@ -1,11 +1,28 @@
 
-export type PaymentMethod = 'CASH' | 'GPAY' | 'PHONEPE' | 'OTHER';
+export type PaymentMethod = 'CASH' | 'GPAY' | 'PHONEPE' | 'OTHER' | 'CREDIT';
 
 export enum TransactionType {
   INCOME = 'INCOME',
   EXPENSE = 'EXPENSE'
 }
 
+export interface PayrollDetail {
+  kind: 'PAYOUT' | 'HOLD_RELEASE' | 'ADVANCE';
+  gross: number; // Earned for payouts, released for hold releases, lent for advances
+  held?: number; // Added to the hold by this payout
+  advanceRecovered?: number;
+  recoveries?: { advanceId: string; amount: number }[]; // Which advances the recovery came from
+  periodStart?: string;
+  periodEnd?: string;
+}
+
+export interface LineItem {
+  menuItemId: string;
+  name: string; // Copied at sale time so later menu edits don't rewrite old bills
+  price: number;
+  quantity: number;
+}
+
 export interface Transaction {
   id: string;
   date: string;
@@ -15,6 +32,131 @@ export interface Transaction {
   paymentMethod: PaymentMethod;
   notes?: string;
   staffId?: string; // Optional link to staff
+  payroll?: PayrollDetail; // Set on entries generated by the Staff tab
+  stockItemId?: string; // Purchase of a tracked raw material
+  quantity?: number; // In the stock item's unit
+  lineItems?: LineItem[]; // Bill rung up on the POS screen
+  customerId?: string; // Credit sale (paymentMethod CREDIT) or a settlement of one
+  supplierId?: string; // Bill bought on credit (paymentMethod CREDIT) or a payment against one
+  dueDate?: string; // Bills: YYYY-MM-DD the supplier expects to be paid by
+  billId?: string; // Supplier payments: the bill this payment clears
+  recurringId?: string; // Posted automatically from a recurring expense
+  needsReview?: boolean; // Auto-posted and not yet confirmed by the owner
+  outletId?: string; // Stall the entry was recorded at
+}
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE';
+
+export type AuditActor = 'OWNER' | 'CASHIER' | 'AUTO'; // AUTO: posted by a recurring schedule
+
+// Append-only change log for the ledger. Entries are never edited or removed.
+export interface AuditEntry {
+  id: string;
+  transactionId: string;
+  action: AuditAction;
+  at: string; // ISO timestamp of the change
+  by: AuditActor;
+  before?: Transaction; // Absent on CREATE
+  after?: Transaction; // Absent on DELETE
+  outletId?: string;
+}
+
+export interface RecipeIngredient {
+  stockItemId: string;
+  quantity: number; // Per item sold, in the stock item's unit (0.08 L, not 80 ml)
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  creditLimit?: number; // Confirm before a credit sale takes the balance past this
+  notes?: string;
+  createdAt: string;
+}
+
+export type RecurrenceRule = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurringExpense {
+  id: string;
+  name: string;
+  amount: number;
+  category: string;
+  paymentMethod: PaymentMethod;
+  rule: RecurrenceRule; // Weekly repeats on the start date's weekday, monthly on its day of month
+  startDate: string; // YYYY-MM-DD of the first due date
+  lastPostedDate?: string; // Latest due date already posted to the ledger
+  paused?: boolean;
+  outletId?: string;
+  createdAt: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  phone: string;
+  paymentTermsDays: number; // Default days from delivery until a bill is due
+  notes?: string;
+  createdAt: string;
+}
+
+export interface MenuItem {
+  id: string;
+  name: string;
+  price: number;
+  categoryId: string; // Income category the sale is booked under
+  order: number;
+  archived?: boolean;
+  recipe?: RecipeIngredient[];
+}
+
+export interface Category {
+  id: string;
+  name: string; // Transactions store the name, so renames rewrite them
+  type: TransactionType;
+  order: number;
+  archived?: boolean; // Hidden from new entries but kept for history
+  protected?: boolean; // Written by the app (payroll, credit settlements); cannot be renamed, merged or archived
+  monthlyBudget?: number; // Expense categories only
+}
+
+export type PayFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type HoldRelease = 'MONTH_END' | 'ON_DEMAND';
+
+export interface PayrollPolicy {
+  frequency: PayFrequency;
+  payoutPercent: number; // Share of each payout handed over now; the rest is held
+  holdRelease: HoldRelease;
+  dailyRate?: number; // Wage per day for daily staff; also used to prorate partial weeks
+  monthlySalary?: number;
+}
+
+export type AttendanceStatus = 'PRESENT' | 'HALF_DAY' | 'ABSENT' | 'LEAVE';
+
+export interface AttendanceEntry {
+  date: string; // YYYY-MM-DD
+  status: AttendanceStatus;
+  overtimeHours?: number;
+}
+
+export interface StaffAdvance {
+  id: string;
+  date: string;
+  amount: number;
+  installment: number; // Recovered per payout; 0 recovers the full balance at the next payout
+  recovered: number;
+  transactionId: string; // Expense entry created when the cash was handed over
+  notes?: string;
+}
+
+// A pay run that paid nothing out (the policy holds 100%) makes no ledger entry, so it is kept here
+export interface HeldPayRun {
+  id: string;
+  date: string;
+  gross: number; // Earned and added to the hold in full
+  periodStart: string;
+  periodEnd: string;
 }
 
 export interface StaffMember {
@@ -26,6 +168,60 @@ export interface StaffMember {
   weeklyBasePay: number;
   totalHeldBalance: number;
   joinedDate: string;
+  payPolicy: PayrollPolicy;
+  attendance: AttendanceEntry[];
+  advances: StaffAdvance[];
+  heldPayRuns?: HeldPayRun[];
+  lastPaidThrough?: string; // Last business date covered by a payout
+  outletId?: string; // Where they currently work
+  transfers?: StaffTransfer[];
+}
+
+export interface StaffTransfer {
+  fromOutletId: string;
+  toOutletId: string;
+  date: string; // Business date of the move
+}
+
+export interface Outlet {
+  id: string;
+  name: string;
+  address: string;
+  location?: {
+    latitude: number;
+    longitude: number;
+  };
+  shopImage?: string; // Base64
+  businessDayCutoffHour?: number; // Sales before this hour count towards the previous day
+  cashSafetyThreshold?: number; // Cash-flow forecast flags days projected to close below this
+  cashOnHand?: CashBalance; // Last balance the owner entered for the forecast
+  createdAt: string;
+}
+
+export interface CashBalance {
+  amount: number; // Drawer cash plus money sitting in UPI accounts
+  at: string; // ISO timestamp it was entered; later entries move it forward
+}
+
+export type StockUnit = 'L' | 'KG' | 'PCS';
+
+export interface StockItem {
+  id: string;
+  name: string;
+  unit: StockUnit;
+  categoryId: string; // Expense category whose entries are purchases of this item
+  reorderLevel: number; // Warn on the dashboard at or below this quantity
+  openingStock: number; // On hand before the first purchase or count
+  createdAt: string;
+}
+
+export interface StockCount {
+  id: string;
+  itemId: string;
+  date: string; // Business date, YYYY-MM-DD; the closing quantity for that day
+  quantity: number;
+  wasted: number; // Spoiled or thrown away since the previous count
+  notes?: string;
 }
 
 export interface DailySummary {
@@ -36,6 +232,40 @@ export interface DailySummary {
   paymentBreakdown: Record<PaymentMethod, number>;
 }
 
+export interface UpiCheck {
+  method: PaymentMethod;
+  expected: number;
+  actual?: number; // What the UPI app shows; left empty until the cashier enters it
+  matched: boolean;
+}
+
+export interface DayClose {
+  id: string;
+  date: string; // Business date, YYYY-MM-DD
+  openingFloat: number;
+  denominations: Record<string, number>; // Note/coin value -> count
+  countedCash: number;
+  expectedCash: number;
+  discrepancy: number; // counted - expected; negative is a shortage
+  upiChecks: UpiCheck[];
+  notes?: string;
+  closedAt: string;
+  reopenedAt?: string; // Kept as a record of the earlier count; it no longer closes the day
+  outletId?: string;
+}
+
+export interface OwnerPin {
+  hash: string; // PBKDF2-SHA-256 of the PIN, never the PIN itself
+  salt: string;
+}
+
+export type SessionRole = 'OWNER' | 'CASHIER' | 'LOCKED';
+
+export interface PinAttempts {
+  failures: number; // Wrong PINs since the last correct one
+  lockedUntil?: number; // Epoch ms; the keypad refuses input until then
+}
+
 export interface UserProfile {
   name: string;
   email: string;
@@ -46,6 +276,27 @@ export interface UserProfile {
     longitude: number;
   };
   shopImage?: string; // Base64
+  businessDayCutoffHour?: number; // Sales before this hour count towards the previous day
+  ownerPin?: OwnerPin;
+  lockAfterMinutes?: number; // Idle time before the app locks; only applies once a PIN is set
   isAuthenticated: boolean;
   isConfigured: boolean;
 }
+
+export type PeriodPreset = 'TODAY' | 'YESTERDAY' | 'THIS_WEEK' | 'THIS_MONTH' | 'CUSTOM';
+
+export interface ReportingPeriod {
+  preset: PeriodPreset;
+  customStart?: string; // YYYY-MM-DD
+  customEnd?: string;
+}
+
+export interface LedgerFilter {
+  query: string; // Matched against category and notes
+  from?: string; // Business dates, YYYY-MM-DD, inclusive
+  to?: string;
+  type?: TransactionType;
+  category?: string;
+  paymentMethod?: PaymentMethod;
+  staffId?: string;
+}